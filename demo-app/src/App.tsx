@@ -1,5 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useCollabDoc } from '../../sdk/src/react/useCollabDoc';
+import { usePresence } from '../../sdk/src/react/usePresence';
+import { useUndoManager } from '../../sdk/src/react/useUndoManager';
+import { useCollabRichText } from '../../sdk/src/react/useCollabRichText';
+import { IndexedDBPersistenceAdapter } from '../../sdk/src/persistence';
 import logo from './assets/icons8-docs-50 (1).png';
 import './App.css';
 
@@ -8,6 +12,8 @@ function App() {
     const [actorId] = useState(() => `client-${Math.random().toString(36).substring(2, 9)}`);
     const serverUrl =
         import.meta.env.VITE_SERVER_URL?.trim() || 'http://localhost:8080';
+    // Keeps the document and unsent edits across reloads, so offline changes are not lost.
+    const [persistence] = useState(() => new IndexedDBPersistenceAdapter());
 
     const {
         docState,
@@ -17,8 +23,20 @@ function App() {
         isLive,
         pause,
         resume,
+        pendingChanges,
+        acceptChanges,
+        rejectChanges,
         error
-    } = useCollabDoc({ roomId, actorId, serverUrl });
+    } = useCollabDoc({ roomId, actorId, serverUrl, persistence });
+
+    const { states: presence, setLocalState } = usePresence(doc);
+    const { undo, redo, canUndo, canRedo } = useUndoManager(doc);
+    const { richText, delta } = useCollabRichText(doc, ['content']);
+    const editorRef = useRef<HTMLTextAreaElement>(null);
+
+    useEffect(() => {
+        setLocalState({ name: actorId });
+    }, [setLocalState, actorId]);
 
     const [editorContent, setEditorContent] = useState<string>('');
 
@@ -31,13 +49,52 @@ function App() {
 
     const handleEditorChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
         const newContent = e.target.value;
+        const previousContent = editorContent;
         setEditorContent(newContent); // Update local state immediately for responsiveness
 
         if (doc) {
-            doc.set(['content'], newContent);
+            // Send only the edited range so concurrent typing merges character-wise.
+            let start = 0;
+            while (start < previousContent.length && start < newContent.length && previousContent[start] === newContent[start]) {
+                start++;
+            }
+            let previousEnd = previousContent.length;
+            let newEnd = newContent.length;
+            while (previousEnd > start && newEnd > start && previousContent[previousEnd - 1] === newContent[newEnd - 1]) {
+                previousEnd--;
+                newEnd--;
+            }
+            const text = doc.getText(['content']);
+            text.delete(start, previousEnd - start);
+            text.insert(start, newContent.slice(start, newEnd));
         }
     };
 
+    const handleEditorKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+        const key = e.key.toLowerCase();
+        if (key === 'z' || key === 'y') {
+            // The browser's own textarea history doesn't know about remote edits.
+            e.preventDefault();
+            if (key === 'y' || e.shiftKey) {
+                redo();
+            } else {
+                undo();
+            }
+        }
+    };
+
+    // Turns an attribute on for the selected text, or off when all of it already has it.
+    const handleToggleFormat = (name: string, value: any) => {
+        const editor = editorRef.current;
+        if (!doc || !richText || !editor || editor.selectionStart === editor.selectionEnd) return;
+        const { selectionStart, selectionEnd } = editor;
+        const formats = doc.getTextFormats(['content']).slice(selectionStart, selectionEnd);
+        const applied = formats.every((format) => format[name] === value);
+        richText.format(selectionStart, selectionEnd - selectionStart, { [name]: applied ? null : value });
+        editor.focus();
+    };
+
     const handleToggleLiveMode = () => {
         if (!doc) return;
         if (isLive) {
@@ -93,18 +150,52 @@ function App() {
                     >
                       {isLive ? 'Pause Live Updates' : 'Resume Live Updates'}
                       </button>
+                    <button onClick={undo} disabled={!canUndo} className="toggle-button">
+                      Undo
+                    </button>
+                    <button onClick={redo} disabled={!canRedo} className="toggle-button">
+                      Redo
+                    </button>
                 </div>
             </div>
 
           </div>
             <p>Client ID: <span className="actor-id">{actorId}</span></p>
             <p>Room: <span className="room-id">{roomId}</span></p>
+            <p>
+                Online:{' '}
+                {Object.keys(presence).map((id) => (
+                    <span key={id} className="actor-id">{id === actorId ? `${id} (you)` : id} </span>
+                ))}
+            </p>
+
+            {!isLive && pendingChanges.length > 0 && (
+                <div className="pending-section">
+                    <h2>Incoming While Paused</h2>
+                    {pendingChanges.map((change) => (
+                        <div key={JSON.stringify(change.path)} className={`pending-change ${change.conflict ? 'conflict' : ''}`}>
+                            <span className="pending-path">{change.path.join('.')}{change.conflict ? ' (conflict)' : ''}</span>
+                            <span>Mine: <code>{JSON.stringify(change.localValue) ?? '(none)'}</code></span>
+                            <span>Incoming: <code>{JSON.stringify(change.remoteValue) ?? '(none)'}</code></span>
+                            <button onClick={() => rejectChanges([change.path])} className="toggle-button">Keep mine</button>
+                            <button onClick={() => acceptChanges([change.path])} className="toggle-button">Take theirs</button>
+                        </div>
+                    ))}
+                </div>
+            )}
 
             <div className="editor-section">
                 <h2>Document Content</h2>
+                <div className="format-toolbar">
+                    <button onClick={() => handleToggleFormat('bold', true)} disabled={!isConnected} className="toggle-button"><b>B</b></button>
+                    <button onClick={() => handleToggleFormat('italic', true)} disabled={!isConnected} className="toggle-button"><i>I</i></button>
+                    <button onClick={() => handleToggleFormat('header', 1)} disabled={!isConnected} className="toggle-button">Heading</button>
+                </div>
                 <textarea
+                    ref={editorRef}
                     value={editorContent}
                     onChange={handleEditorChange}
+                    onKeyDown={handleEditorKeyDown}
                     placeholder="Welcome! This is a real-time collaboration demo.Open this page in multiple tabs or share it with a friend and start typing — changes sync instantly across all users in the same room. You can pause live updates to work independently and resume syncing anytime. If you go offline, your edits are queued locally and automatically synced when you reconnect."
                     rows={25}
                     className="collab-editor"
@@ -112,6 +203,24 @@ function App() {
                 />
             </div>
 
+            <div className="preview-section">
+                <h2>Formatted Preview</h2>
+                <div className="rich-preview">
+                    {delta.ops.map((op, i) => 'insert' in op && (
+                        <span
+                            key={i}
+                            style={{
+                                fontWeight: op.attributes?.bold ? 'bold' : undefined,
+                                fontStyle: op.attributes?.italic ? 'italic' : undefined,
+                                fontSize: op.attributes?.header ? '1.5em' : undefined,
+                            }}
+                        >
+                            {op.insert}
+                        </span>
+                    ))}
+                </div>
+            </div>
+
             <div className="debug-section">
                 <h2>Raw Document State (JSON)</h2>
                 <pre className="debug-json">
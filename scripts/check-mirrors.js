@@ -0,0 +1,53 @@
+// scripts/check-mirrors.js
+
+// The server is deployed on its own (see render.yaml), so it cannot import from the SDK and
+// keeps copies of the modules both sides must agree on. Each copy says so in its header:
+// "This file mirrors `sdk/src/<name>.ts`". This checks every such file against the SDK's
+// and fails when they differ in anything but that header. Run with `npm run check:mirrors`.
+
+const fs = require('fs');
+const path = require('path');
+
+const root = path.join(__dirname, '..');
+const MIRROR_NOTE = /This file mirrors `(sdk\/src\/[\w-]+\.ts)`/;
+
+/** The server copy as it would read in the SDK: only the path comment and the note differ. */
+function asOriginal(copy, copyPath, originalPath) {
+    return copy
+        .replace(`// ${copyPath}`, `// ${originalPath}`)
+        .replace(`This file mirrors \`${originalPath}\``, `This file is mirrored by \`${copyPath}\``);
+}
+
+function firstDifference(a, b) {
+    const aLines = a.split('\n');
+    const bLines = b.split('\n');
+    const line = aLines.findIndex((text, i) => text !== bLines[i]);
+    return line === -1 ? aLines.length + 1 : line + 1;
+}
+
+let checked = 0;
+let failures = 0;
+for (const file of fs.readdirSync(path.join(root, 'server/src')).sort()) {
+    const copyPath = `server/src/${file}`;
+    const copy = fs.readFileSync(path.join(root, copyPath), 'utf8');
+    const note = copy.match(MIRROR_NOTE);
+    if (!note) {
+        continue;
+    }
+    const originalPath = note[1];
+    checked++;
+    if (!fs.existsSync(path.join(root, originalPath))) {
+        console.error(`FAIL: ${copyPath} mirrors ${originalPath}, which does not exist`);
+        failures++;
+        continue;
+    }
+    const original = fs.readFileSync(path.join(root, originalPath), 'utf8');
+    const expected = asOriginal(copy, copyPath, originalPath);
+    if (expected !== original) {
+        console.error(`FAIL: ${copyPath} differs from ${originalPath} from line ${firstDifference(expected, original)}`);
+        failures++;
+    }
+}
+
+console.log(`${checked - failures}/${checked} mirrored files match the SDK`);
+process.exit(failures === 0 ? 0 : 1);
@@ -0,0 +1,73 @@
+// sdk/src/clock.ts
+
+/**
+ * Hybrid logical clocks and the last-writer-wins ordering built on them.
+ *
+ * This file is mirrored by `server/src/clock.ts`; keep the two in sync
+ * (`npm run check:mirrors` compares them).
+ */
+
+/** A point on a hybrid logical clock: wall-clock milliseconds plus a counter for ties. */
+export interface HlcTimestamp {
+    timestamp: number;
+    counter: number;
+}
+
+/** The fields of an operation or its metadata that decide last-writer-wins. */
+export interface WriteVersion {
+    timestamp: number;
+    /** Absent on operations from clients that predate hybrid clocks; treated as 0. */
+    counter?: number;
+    actorId: string;
+}
+
+/**
+ * Orders two writes: positive when `a` wins over `b`, negative when `b` wins, 0 for the
+ * same write. Ties on the clock go to the lower actor id, so every replica picks the same winner.
+ */
+export function compareVersions(a: WriteVersion, b: WriteVersion): number {
+    if (a.timestamp !== b.timestamp) {
+        return a.timestamp - b.timestamp;
+    }
+    const counterA = a.counter ?? 0;
+    const counterB = b.counter ?? 0;
+    if (counterA !== counterB) {
+        return counterA - counterB;
+    }
+    if (a.actorId === b.actorId) {
+        return 0;
+    }
+    return a.actorId < b.actorId ? 1 : -1;
+}
+
+/**
+ * Hybrid logical clock. Timestamps stay close to wall-clock time but never go backwards and
+ * always move past every timestamp seen from other actors, so a write made after seeing
+ * another one is ordered after it even when the two devices' clocks disagree.
+ */
+export class HybridLogicalClock {
+    private last: HlcTimestamp = { timestamp: 0, counter: 0 };
+
+    /** @param physicalTime Source of wall-clock milliseconds, e.g. corrected by a known server offset. */
+    constructor(private physicalTime: () => number = () => Date.now()) {}
+
+    /** Timestamp for a new local write. */
+    now(): HlcTimestamp {
+        const physical = this.physicalTime();
+        if (physical > this.last.timestamp) {
+            this.last = { timestamp: physical, counter: 0 };
+        } else {
+            this.last = { timestamp: this.last.timestamp, counter: this.last.counter + 1 };
+        }
+        return { ...this.last };
+    }
+
+    /** Moves the clock past a timestamp received from another actor. */
+    receive(remote: { timestamp: number; counter?: number }): void {
+        const remoteCounter = remote.counter ?? 0;
+        if (remote.timestamp > this.last.timestamp
+            || (remote.timestamp === this.last.timestamp && remoteCounter > this.last.counter)) {
+            this.last = { timestamp: remote.timestamp, counter: remoteCounter };
+        }
+    }
+}
@@ -0,0 +1,67 @@
+// sdk/src/coalesce.ts
+
+import type { Operation, Path } from './collab-doc';
+import type { TextInsertPayload, TextDeletePayload } from './sequence';
+import { makeSequenceId, parseSequenceId } from './sequence';
+
+/**
+ * Shrinks a run of local operations about to be sent together, without changing what any
+ * replica ends up with:
+ *
+ * - An operation is dropped when a later `set` or `del` in the run writes its path or a path
+ *   above it. The later write wins over it in every delivery order anyway.
+ * - A `text_insert` that continues the one just before it, typing on at its end, is merged
+ *   into it. Characters get consecutive ids, so one insert of both texts is the same edit.
+ * - Consecutive `text_delete`s of the same text are merged into one.
+ *
+ * Edits are only merged when they build on the same write (see `SequenceEdit.base`).
+ * Operations inside transactions are left alone. Merged operations keep the id of the first
+ * one and the clock of the last, so the result is still ordered after everything it replaces.
+ */
+export function coalesceOperations(operations: Operation[]): Operation[] {
+    const kept = operations.filter((op, index) =>
+        op.op === 'transaction'
+        || !operations.slice(index + 1).some((later) => (later.op === 'set' || later.op === 'del') && isPrefix(later.path, op.path))
+    );
+    const result: Operation[] = [];
+    for (const op of kept) {
+        const previous = result[result.length - 1];
+        const merged = previous ? mergeOperations(previous, op) : null;
+        if (merged) {
+            result[result.length - 1] = merged;
+        } else {
+            result.push(op);
+        }
+    }
+    return result;
+}
+
+function mergeOperations(first: Operation, second: Operation): Operation | null {
+    if (first.op !== second.op || first.actorId !== second.actorId || JSON.stringify(first.path) !== JSON.stringify(second.path)) {
+        return null;
+    }
+    if (JSON.stringify(first.value?.base) !== JSON.stringify(second.value?.base)) {
+        return null;
+    }
+    const clock = { timestamp: second.timestamp, counter: second.counter, version: second.version };
+    if (first.op === 'text_insert') {
+        const before = first.value as TextInsertPayload;
+        const after = second.value as TextInsertPayload;
+        const start = parseSequenceId(before.id);
+        const last = makeSequenceId(start.counter + before.text.length - 1, start.actorId);
+        const next = makeSequenceId(start.counter + before.text.length, start.actorId);
+        if (after.origin !== last || after.id !== next) {
+            return null;
+        }
+        return { ...first, ...clock, value: { ...before, text: before.text + after.text } };
+    }
+    if (first.op === 'text_delete') {
+        const ids = [...(first.value as TextDeletePayload).ids, ...(second.value as TextDeletePayload).ids];
+        return { ...first, ...clock, value: { ...first.value, ids } };
+    }
+    return null;
+}
+
+function isPrefix(prefix: Path, path: Path): boolean {
+    return prefix.length <= path.length && prefix.every((segment, i) => path[i] === segment);
+}
@@ -1,144 +1,615 @@
 // // sdk/src/collab-doc.ts 
 
-import { io, Socket } from 'socket.io-client';
+import type {
+    SequenceId,
+    SequenceState,
+    TextInsertPayload,
+    TextDeletePayload,
+    TextFormatPayload,
+    TextAttributes,
+    ListState,
+    ListInsertPayload,
+    ListRemovePayload,
+    ListMovePayload,
+} from './sequence';
+import {
+    createSequence,
+    makeSequenceId,
+    parseSequenceId,
+    nextSequenceCounter,
+    originForIndex,
+    visibleNodes,
+    applyTextInsert,
+    applyTextDelete,
+    applyTextFormat,
+    textFromSequence,
+    formatsFromSequence,
+    createList,
+    listEntries,
+    listOriginForIndex,
+    applyListInsert,
+    applyListRemove,
+    applyListMove,
+    valuesFromList,
+} from './sequence';
+import { BrowserEventEmitter } from './events';
+import { HybridLogicalClock } from './clock';
+import { isSuperseded, latestWrite, newerDescendants, preservedValue, recordWrite, pruneEmptyAncestors } from './lww';
+import type { PathMetadata } from './lww';
+import { newViolations, SchemaValidationError } from './schema';
+import type { JSONSchema, SchemaViolation } from './schema';
+import { updateImmutable, shallowChanged, immutableValueAt } from './immutable';
+import { CollabText } from './text';
+import { CollabRichText } from './rich-text';
+import { CollabList } from './list';
+import type { PersistenceAdapter, PersistedDocument } from './persistence';
+import { requestRoomApi } from './history';
+import type { VersionInfo, NamedSnapshot, RestoreResult } from './history';
+import { coalesceOperations } from './coalesce';
+import { encodeOperations, decodeOperations } from './wire';
+import { CollabConnection } from './connection';
+import type { RoomChannel, ReconnectOptions, ReconnectAttempt } from './connection';
+import type { NegotiatedProtocol } from './protocol';
+import { applyMerge, isStaleEdit, isStaleMerge, mergeBase, mergeOperand, strategyFor } from './merge';
+import type { MergePayload, MergeStrategies } from './merge';
+
+export { CollabText } from './text';
+export { CollabRichText } from './rich-text';
+export type { Delta, DeltaOperation } from './rich-text';
+export type { TextAttributes } from './sequence';
+export { CollabList } from './list';
+export { UndoManager } from './undo-manager';
+export type { UndoManagerOptions } from './undo-manager';
+export { MemoryPersistenceAdapter, IndexedDBPersistenceAdapter } from './persistence';
+export type { PersistenceAdapter, PersistedDocument } from './persistence';
+export type { PathMetadata } from './lww';
+export { validateSchema, SchemaValidationError } from './schema';
+export type { JSONSchema, SchemaViolation } from './schema';
+export { CollabRequestError } from './history';
+export type { VersionInfo, NamedSnapshot, RestoreResult } from './history';
+export { PROTOCOL_VERSION } from './protocol';
+export type { NegotiatedProtocol, ProtocolFeature } from './protocol';
+export { CollabConnection, reconnectDelay } from './connection';
+export type { CollabConnectionConfig, ReconnectOptions, ReconnectAttempt } from './connection';
+export { strategyFor } from './merge';
+export type { MergeFunction, MergeStrategy, MergeStrategies, MergePayload } from './merge';
+
+/**
+ * What the server did with a local operation: stored it (`applied`), dropped it because a
+ * later write had already decided the value (`superseded`), or refused it (`invalid`,
+ * `unauthorized`).
+ */
+export type OperationOutcome = 'applied' | 'superseded' | 'invalid' | 'unauthorized';
+
+/** A local operation that did not take effect on the server; see the `conflict` and `rejected` events. */
+export interface RejectedOperation {
+    operation: Operation;
+    outcome: Exclude<OperationOutcome, 'applied'>;
+    /** The room's version the outcome was decided at; missing when the operation never reached the room. */
+    seq?: number;
+    code?: string;
+    message?: string;
+    /** For schema violations, what the operation would have broken. */
+    violations?: SchemaViolation[];
+    /** For `superseded`, the write that won. */
+    winner?: { actorId: string; timestamp: number };
+}
+
+/** The server's answer to one operation, sent with `operation_acks`. */
+interface OperationAck extends Omit<RejectedOperation, 'operation' | 'outcome'> {
+    operationId: string;
+    outcome: OperationOutcome;
+}
+
+/**
+ * Remote edits to one path that arrived while the document was paused, compared with the
+ * local state; see `getPendingChanges`.
+ */
+export interface PendingChange {
+    path: Path;
+    /** The value now, including local edits not sent yet. */
+    localValue: any;
+    /** The value after taking the remote edits, `undefined` if they delete it. */
+    remoteValue: any;
+    /** The buffered remote operations at this path, in the order the server applied them. */
+    operations: Operation[];
+    /** Unsent local operations at, above or below this path. */
+    localOperations: Operation[];
+    /** Both sides edited the path: resuming would let the later write win. */
+    conflict: boolean;
+}
+
+/**
+ * Where a document is in getting to, and staying, in sync with the server:
+ *
+ * - `offline`: not connected and not trying to be, before `connect()`, after `disconnect()`
+ *   or after the server refused the connection or retries gave up.
+ * - `connecting`: the first attempt after `connect()`.
+ * - `syncing`: connected, waiting for the room's state.
+ * - `synced`: up to date; local operations are sent as they are made.
+ * - `reconnecting`: the connection was lost or could not be made and will be retried.
+ */
+export type ConnectionState = 'offline' | 'connecting' | 'syncing' | 'synced' | 'reconnecting';
+
+/**
+ * Payload of the `change` event. A transaction produces a single event with action
+ * `'transaction'`, an empty path and the individual changes in `changes`.
+ */
+export interface ChangePayload {
+    path: Path;
+    action: OperationType;
+    value?: any;
+    isRemote: boolean;
+    changes?: ChangePayload[];
+}
+
+/**
+ * Passed to `observe`/`observeDeep` callbacks. `changes` are the changes at, above or below
+ * the observed path that caused it; it is empty when the whole document was replaced by a
+ * sync with the server or a restore from persistence.
+ */
+export interface ObserveEvent<V = any> {
+    path: Path;
+    value: V | undefined;
+    previousValue: V | undefined;
+    changes: ChangePayload[];
+}
+
+interface DocumentObserver {
+    path: Path;
+    deep: boolean;
+    callback: (event: ObserveEvent) => void;
+    /** The frozen value the callback last saw. */
+    value: any;
+}
+
+/** A transaction being made in `transact`, with what is needed to take it back if it fails. */
+interface PendingTransaction {
+    id: string;
+    ops: Operation[];
+    /** The state from before the transaction. Text and list states are copied the first time an operation changes them. */
+    saved: {
+        immutable: Record<string, any>;
+        metadata: { [path: string]: PathMetadata };
+        texts: { [path: string]: SequenceState<string> };
+        lists: { [path: string]: ListState };
+        copied: Set<string>;
+    };
+}
 
 interface CollabDocEvents {
-    change: [payload: { path: Path; action: 'set' | 'del'; value?: any; isRemote: boolean }];
+    change: [payload: ChangePayload];
     connect: []; 
     disconnect: [reason: string];
+    connectionState: [state: ConnectionState, previous: ConnectionState];
+    /** A retry of the connection is scheduled. */
+    reconnecting: [retry: ReconnectAttempt];
+    /** A local write lost to a later write of the same value on the server (`outcome` is `superseded`). */
+    conflict: [rejection: RejectedOperation];
+    /** The server refused a local operation (`outcome` is `invalid` or `unauthorized`). */
+    rejected: [rejection: RejectedOperation];
     synced: []; 
+    /** Cached state from the persistence adapter has been loaded; fired before `synced`. */
+    restored: [];
     error: [err: any];
     pause: [];   
     resume: [];  
+    /** What `getPendingChanges` returns changed: a remote edit was buffered, a local one made or some resolved. */
+    pendingChanges: [];
+    awareness: [change: { updated: string[]; removed: string[] }];
+    /** Fired for every local operation; `transaction` is the id of the transaction it was made in, if any. */
+    localOperation: [payload: { op: Operation; inverse: InverseOperation; transaction?: string }];
+    /** A transaction failed and was taken back; the operations reported for it were never sent. */
+    transactionAborted: [transaction: string];
     [key: string]: any[]; 
 }
 
-class BrowserEventEmitter<Events extends Record<string, any[]>> {
-    private listeners: { [K in keyof Events]?: ((...args: Events[K]) => void)[] } = {};
-
-    on<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): void {
-        if (!this.listeners[event]) {
-            this.listeners[event] = [];
-        }
-        (this.listeners[event] as ((...args: Events[K]) => void)[]).push(listener);
-    }
-
-    off<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): void {
-        if (!this.listeners[event]) {
-            return;
-        }
-        this.listeners[event] = (this.listeners[event] as ((...args: Events[K]) => void)[]).filter(
-            (l) => l !== listener
-        ) as ((...args: Events[K]) => void)[];
-    }
-
-    emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
-        if (!this.listeners[event]) {
-            return;
-        }
-        const currentListeners = [...(this.listeners[event] as ((...args: Events[K]) => void)[])];
-        currentListeners.forEach((listener) => {
-            try {
-                listener(...args); 
-            } catch (e) {
-                console.error(`Error in event listener for ${String(event)}:`, e);
-            }
-        });
-    }
-}
-
 export type Path = (string | number)[];
+
+/**
+ * Type of the value at `P` inside a document of type `T`, e.g.
+ * `PathValue<{ user: { name: string } }, ['user', 'name']>` is `string`. Paths that are not
+ * literal tuples resolve to `any`.
+ */
+export type PathValue<T, P extends readonly (string | number)[]> =
+    number extends P['length'] ? any
+    : P extends readonly [infer Head, ...infer Rest extends (string | number)[]]
+        ? NonNullable<T> extends readonly (infer Item)[]
+            ? Head extends number ? PathValue<Item, Rest> | undefined : never
+            : Head extends keyof NonNullable<T> ? PathValue<NonNullable<T>[Head], Rest> : never
+        : T;
+export type OperationType =
+    | 'set'
+    | 'del'
+    | 'text_insert'
+    | 'text_delete'
+    /** Formatting of a range of text; `value` is a `TextFormatPayload` (see sequence.ts). */
+    | 'text_format'
+    | 'list_insert'
+    | 'list_remove'
+    | 'list_move'
+    /** A batch of operations made in `transact`; `value` holds them and they apply all at once. */
+    | 'transaction'
+    /** A write to a path with a merge strategy, folded into its value (see merge.ts); `value` is a `MergePayload`. */
+    | 'merge';
 export type Operation = {
     id: string;
     path: Path;
-    op: 'set' | 'del';
+    op: OperationType;
     value?: any;
+    /** Hybrid logical clock time of the write: milliseconds, with `counter` breaking ties. */
     timestamp: number;
+    counter?: number;
     actorId: string;
     version: number;
 };
 
+/** How often the local awareness state is re-sent so the server knows this client is still present. */
+const AWARENESS_HEARTBEAT_MS = 15000;
+
+/** Keys that would reach an object's prototype instead of a property of its own when walked. */
+const FORBIDDEN_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/** Operations that edit a text or list CRDT; their payloads are `SequenceEdit`s (see sequence.ts). */
+const SEQUENCE_OPERATIONS: OperationType[] = ['text_insert', 'text_delete', 'text_format', 'list_insert', 'list_remove', 'list_move'];
+
+/**
+ * How to revert a local operation, recorded before it was applied. Sequence inverses refer to
+ * element ids, so they still target the right characters/items after remote edits. `set`/`del`
+ * inverses name who must still own the value (`expect`, or `null` for "still deleted") and are
+ * skipped once another actor has written over it. Re-inserting deleted text or items creates
+ * new ids; `replaces` lists the ids they stand in for.
+ */
+export type InverseOperation =
+    | { op: 'set'; path: Path; value: any; expect: { actorId: string } | null }
+    | { op: 'del'; path: Path; value?: undefined; expect: { actorId: string } | null }
+    /** `formats` holds the attributes each character had, when the text was formatted. */
+    | { op: 'text_insert'; path: Path; origin: SequenceId | null; text: string; replaces: SequenceId[]; formats?: TextAttributes[] }
+    | { op: 'text_delete'; path: Path; ids: SequenceId[] }
+    /** The attributes the ranges had before, `null` for those they did not have. */
+    | { op: 'text_format'; path: Path; runs: TextFormatPayload[] }
+    | { op: 'list_insert'; path: Path; origin: SequenceId | null; values: any[]; replaces: SequenceId[] }
+    | { op: 'list_remove'; path: Path; ids: SequenceId[] }
+    | { op: 'list_move'; path: Path; elementId: SequenceId; origin: SequenceId | null }
+    | { op: 'increment'; path: Path; by: number }
+    /** Merges other than counters cannot be taken back without undoing concurrent ones; applying it does nothing. */
+    | { op: 'merge'; path: Path };
+
 export interface CollabDocConfig {
     roomId: string;
     actorId: string;
-    serverUrl: string;
+    /**
+     * Shared socket to the server, so documents in different rooms do not each open one.
+     * Without it the document opens its own connection to `serverUrl`.
+     */
+    connection?: CollabConnection;
+    serverUrl?: string;
+    /**
+     * Credential sent in the Socket.IO handshake for the server to verify. A function is
+     * called again on every (re)connect, so it can return a freshly issued token. Only used
+     * for the document's own connection; a shared `connection` carries its own token.
+     */
+    token?: string | (() => string | Promise<string>);
+    /** Backoff for the document's own connection; a shared `connection` has its own. */
+    reconnect?: ReconnectOptions | false;
+    /**
+     * Where to keep the document and its unsent operations between page loads. They are
+     * restored before connecting, so cached state can be rendered before `synced`.
+     */
+    persistence?: PersistenceAdapter;
+    /**
+     * JSON Schema the document must satisfy. Local edits that would add a violation throw a
+     * `SchemaValidationError` instead of being applied; the server enforces its own copy.
+     */
+    schema?: JSONSchema;
+    /**
+     * How writes to matching paths are merged instead of the later one winning, e.g.
+     * `{ 'posts.*.likes': 'counter' }` (see merge.ts). The server and every client of the
+     * room must use the same strategies.
+     */
+    mergeStrategies?: MergeStrategies;
+    /**
+     * How long local operations are collected before they are sent to the server together
+     * (default 16ms, about one frame). Operations made in that window are coalesced first,
+     * e.g. a burst of keystrokes becomes one text insert. `0` sends every operation at once.
+     */
+    batchDelayMs?: number;
 }
 
-export default class CollabDoc extends BrowserEventEmitter<CollabDocEvents> {
+/** A collaborative document; `T` describes its shape for the typed accessors. */
+export default class CollabDoc<T extends Record<string, any> = Record<string, any>> extends BrowserEventEmitter<CollabDocEvents> {
     private roomId: string;
     private actorId: string;
-    private serverUrl: string;
-    private socket: Socket;
+    private connection: CollabConnection;
+    private channel: RoomChannel;
     private doc: Record<string, any>;
-    private metadata: { [path: string]: { timestamp: number; actorId: string; version: number } };
+    private metadata: { [path: string]: PathMetadata };
+    private texts: { [path: string]: SequenceState<string> };
+    private lists: { [path: string]: ListState };
+    /**
+     * Local operations the server has not confirmed yet. With `operation_acks` they stay here
+     * after being sent until the server's `ack`, and are sent again after a reconnect.
+     */
     private offlineQueue: Operation[];
+    /** Queued operations sent on the current connection, waiting for their `ack`. */
+    private inFlight: Set<string>;
+    /**
+     * Queued operations that were sent at least once. They are never coalesced again: the
+     * server may have applied them already and only knows them by id.
+     */
+    private sent: Set<string>;
+    /** Local operations made while synced, waiting for the current batch to be sent. */
+    private outbox: Operation[];
+    private outboxTimer: ReturnType<typeof setTimeout> | null;
+    private batchDelayMs: number;
     private connected: boolean;
     private syncedWithServer: boolean;
+    private connectionState: ConnectionState;
+    /** Server sequence number of the last operation received, sent on rejoin to catch up incrementally. */
+    private lastSeq: number | null;
+    private clock: HybridLogicalClock;
+    /** Difference between the server's clock and ours, measured on every sync. */
+    private clockOffset: number;
 
     private isLiveMode: boolean;
     private remoteOperationsBuffer: Operation[];
 
-    constructor({ roomId, actorId, serverUrl }: CollabDocConfig) {
+    private transactionDepth: number;
+    private pendingTransaction: PendingTransaction | null;
+    /** Collects change payloads while a transaction is applied so they go out as one event. */
+    private pendingChanges: ChangePayload[] | null;
+
+    private localAwarenessState: Record<string, any> | null;
+    private remoteAwarenessStates: { [actorId: string]: Record<string, any> };
+    private awarenessHeartbeat: ReturnType<typeof setInterval> | null;
+
+    /** Frozen, structurally shared copy of `doc`, brought up to date lazily (see immutable.ts). */
+    private immutable: Record<string, any>;
+    /** Paths changed in `doc` since `immutable` was last brought up to date. */
+    private staleImmutablePaths: Path[];
+    private observers: DocumentObserver[];
+
+    private persistence?: PersistenceAdapter;
+    private schema?: JSONSchema;
+    private mergeStrategies?: MergeStrategies;
+    private restored: Promise<void>;
+    private persisting: Promise<void>;
+    private persistScheduled: boolean;
+    private shouldConnect: boolean;
+
+    constructor({ roomId, actorId, connection, serverUrl, token, reconnect, persistence, schema, mergeStrategies, batchDelayMs = 16 }: CollabDocConfig) {
         super();
         console.log(`[CollabDoc ${actorId}] Constructor: Initializing for room: ${roomId}...`);
+        if (!connection && !serverUrl) {
+            throw new Error('CollabDoc needs either a connection or a serverUrl');
+        }
         this.roomId = roomId;
         this.actorId = actorId;
-        this.serverUrl = serverUrl;
+        this.connection = connection ?? new CollabConnection({ serverUrl: serverUrl!, token, reconnect });
+        this.channel = this.connection.channel(roomId);
         this.doc = {};
+        this.immutable = Object.freeze({});
+        this.staleImmutablePaths = [];
+        this.observers = [];
         this.metadata = {};
+        this.texts = {};
+        this.lists = {};
         this.offlineQueue = [];
+        this.inFlight = new Set();
+        this.sent = new Set();
+        this.outbox = [];
+        this.outboxTimer = null;
+        this.batchDelayMs = batchDelayMs;
         this.connected = false;
         this.syncedWithServer = false;
+        this.connectionState = 'offline';
+        this.lastSeq = null;
+        this.clockOffset = 0;
+        this.clock = new HybridLogicalClock(() => Date.now() + this.clockOffset);
         this.isLiveMode = true;
         this.remoteOperationsBuffer = [];
-        this.socket = io(this.serverUrl, {
-            autoConnect: false,
-            transports: ["websocket"],
-        });
-
-        this.socket.on('connect', () => {
+        this.transactionDepth = 0;
+        this.pendingTransaction = null;
+        this.pendingChanges = null;
+        this.localAwarenessState = null;
+        this.remoteAwarenessStates = {};
+        this.awarenessHeartbeat = null;
+        this.persistence = persistence;
+        this.schema = schema;
+        this.mergeStrategies = mergeStrategies;
+        this.persisting = Promise.resolve();
+        this.persistScheduled = false;
+        this.shouldConnect = false;
+        this.channel.on('connect', () => {
             this.connected = true;
+            this.setConnectionState('syncing');
             this.emit('connect'); 
-            this.socket.emit('join_room', this.roomId);
+            if (this.lastSeq !== null) {
+                this.channel.send('join_room', this.roomId, this.lastSeq);
+            } else {
+                this.channel.send('join_room', this.roomId);
+            }
         });
 
-        this.socket.on('disconnect', (reason: string) => {
+        this.channel.on('disconnect', (reason: string) => {
             this.connected = false;
+            this.syncedWithServer = false;
+            // Unsent and unconfirmed operations wait in the offline queue for the next sync.
+            this.flushOutbox();
+            this.inFlight.clear();
+            this.setConnectionState(this.shouldConnect && this.connection.isReconnecting() ? 'reconnecting' : 'offline');
+            this.stopAwarenessHeartbeat();
             this.emit('disconnect', reason); 
+            // Peers' presence is unknown while offline; the server resends it after the rejoin.
+            const removed = Object.keys(this.remoteAwarenessStates);
+            this.remoteAwarenessStates = {};
+            if (removed.length > 0) {
+                this.emit('awareness', { updated: [], removed });
+            }
         });
 
-        this.socket.on('initial_state', (initialDocState: any, metadata: { [path: string]: any }) => {
+        this.channel.on('initial_state', (
+            initialDocState: any,
+            metadata: { [path: string]: any },
+            texts: { [path: string]: SequenceState<string> } = {},
+            lists: { [path: string]: ListState } = {},
+            seq: number | null = null,
+            serverTime?: number,
+            roomId?: string
+        ) => {
+            if (roomId !== undefined && roomId !== this.roomId) {
+                return;
+            }
+            this.adjustClockOffset(serverTime);
             this.doc = JSON.parse(JSON.stringify(initialDocState));
+            this.markChanged([]);
             this.initializeMetadata(metadata);
-            this.syncedWithServer = true;
-            this.emit('synced');
-            this.processOfflineQueue();
+            this.texts = JSON.parse(JSON.stringify(texts));
+            this.lists = JSON.parse(JSON.stringify(lists));
+            this.lastSeq = seq;
+            // Local edits the server has not confirmed may be missing from its state, and their
+            // echo only confirms them; replay them on top, as the server will once they are resent.
+            // As remote, so a write the server already has a newer one for stays lost.
+            [...this.offlineQueue, ...this.outbox].forEach((op) => this.applyOperation(op, true));
+            this.finishSync();
+        });
+
+        // Reply to a rejoin with a known `lastSeq`: only the operations missed while disconnected.
+        this.channel.on('catch_up', (roomId: string, missed: { seq: number; operation: Operation }[], seq: number, serverTime?: number) => {
+            if (roomId !== this.roomId) {
+                return;
+            }
+            this.adjustClockOffset(serverTime);
+            missed.forEach(({ operation }) => this.applyRemoteOperation(operation));
+            this.lastSeq = seq;
+            this.finishSync();
         });
 
-        this.socket.on('operation', (roomId: string, op: Operation) => {
+        this.channel.on('operation', (roomId: string, op: Operation, seq?: number) => {
             if (roomId === this.roomId) {
+                if (typeof seq === 'number') {
+                    this.lastSeq = seq;
+                }
                 this.applyRemoteOperation(op);
             }
         });
 
-        this.socket.on('error', (err: any) => {
+        // Operations committed together, with consecutive sequence numbers from `firstSeq`.
+        this.channel.on('operations', (roomId: string, payload: ArrayBuffer | Uint8Array, firstSeq: number) => {
+            if (roomId !== this.roomId) {
+                return;
+            }
+            let operations: Operation[];
+            try {
+                operations = decodeOperations(payload);
+            } catch (err: any) {
+                console.warn(`[CollabDoc ${this.actorId}] Failed to decode operations from the server:`, err);
+                this.emit('error', { code: 'invalid_operation', message: err?.message ?? String(err) });
+                return;
+            }
+            operations.forEach((op, i) => {
+                this.lastSeq = firstSeq + i;
+                this.applyRemoteOperation(op);
+            });
+        });
+
+        this.channel.on('awareness', (roomId: string, updates: { [actorId: string]: Record<string, any> | null }) => {
+            if (roomId === this.roomId) {
+                this.applyAwarenessUpdates(updates);
+            }
+        });
+
+        this.channel.on('ack', (roomId: string, acks: OperationAck[]) => {
+            if (roomId === this.roomId) {
+                this.handleAcks(acks);
+            }
+        });
+
+        this.channel.on('error', (err: any) => {
+            // Servers without `operation_acks` report refused operations as errors. A refused
+            // operation would only be refused again, so it is not resent.
+            if (typeof err?.operationId === 'string') {
+                this.confirmOperations([err.operationId]);
+            }
             this.emit('error', err); 
         });
+
+        // Rejections from the server's auth middleware carry a code; plain network failures do not.
+        this.channel.on('connect_error', (err: Error & { data?: { code?: string } }) => {
+            if (err.data?.code) {
+                this.emit('error', { code: err.data.code, message: err.message });
+            }
+            if (!this.connection.isReconnecting()) {
+                this.setConnectionState('offline');
+            }
+        });
+
+        this.channel.on('reconnecting', (retry: ReconnectAttempt) => {
+            this.setConnectionState('reconnecting');
+            this.emit('reconnecting', retry);
+        });
+
+        this.channel.on('reconnect_failed', (attempts: number) => {
+            this.setConnectionState('offline');
+            this.emit('error', { code: 'reconnect_failed', message: `Could not reconnect after ${attempts} attempts` });
+        });
+
+        this.restored = this.restoreFromPersistence();
+    }
+
+    private finishSync() {
+        this.syncedWithServer = true;
+        this.setConnectionState('synced');
+        this.schedulePersist();
+        this.notifyObservers([]);
+        this.emit('synced');
+        this.processOfflineQueue();
+        this.publishLocalState();
+        this.startAwarenessHeartbeat();
+    }
+
+    /**
+     * Uses the server's clock as the physical time source, so a device whose clock is off
+     * neither wins nor loses every conflict. Network latency is small next to typical skew.
+     */
+    private adjustClockOffset(serverTime?: number) {
+        if (typeof serverTime === 'number') {
+            this.clockOffset = serverTime - Date.now();
+        }
     }
 
+    private setConnectionState(state: ConnectionState) {
+        const previous = this.connectionState;
+        if (state !== previous) {
+            this.connectionState = state;
+            this.emit('connectionState', state, previous);
+        }
+    }
+
+    /** Connects once any persisted state has been restored, so unsent operations go out first. */
     public connect() {
-        if (!this.connected) {
-            this.socket.connect();
+        this.shouldConnect = true;
+        if (this.connectionState === 'offline') {
+            this.setConnectionState('connecting');
         }
+        this.restored.then(() => {
+            if (this.shouldConnect && !this.connected) {
+                this.channel.connect();
+            }
+        });
     }
 
     public disconnect() {
+        this.shouldConnect = false;
         if (this.connected) {
-            this.socket.disconnect();
-        } 
+            this.flushOutbox();
+        }
+        // Leaves the room; the socket itself closes once no other document uses it.
+        this.channel.disconnect();
+        this.setConnectionState('offline');
     }
 
-    public get(path: Path): any {
+    public get<P extends Path>(path: [...P]): PathValue<T, P> | undefined {
         let current: any = this.doc;
         for (const segment of path) {
             if (current === null || typeof current !== 'object' || !current.hasOwnProperty(segment)) {
@@ -149,34 +620,561 @@ export default class CollabDoc extends BrowserEventEmitter<CollabDocEvents> {
         return current;
     }
 
-    public set(path: Path, value: any) {
-        const op: Operation = {
-            id: this.generateOperationId(),
-            path,
-            op: 'set',
-            value,
-            timestamp: Date.now(),
-            actorId: this.actorId,
-            version: (this.getMetadata(path)?.version || 0) + 1
-        };
-        this.applyOperation(op);
-        this.queueOrSendOperation(op);
+    /**
+     * Writes `value` at `path`. On a path with the `max`, `min`, `mvr` or a custom merge
+     * strategy the value is merged into the current one; on a `counter` it resets the count.
+     */
+    public set<P extends Path>(path: [...P], value: PathValue<T, P>) {
+        const strategy = strategyFor(this.mergeStrategies, path);
+        if (strategy === 'lww' || strategy === 'counter') {
+            this.commitLocalOperation(this.createOperation(path, 'set', value));
+            return;
+        }
+        this.commitMerge(path, mergeOperand(strategy, this.get(path), JSON.parse(JSON.stringify(value))));
+    }
+
+    /** Adds `by` (which may be negative) to a path with the `counter` merge strategy; concurrent increments add up. */
+    public increment(path: Path, by: number = 1) {
+        if (strategyFor(this.mergeStrategies, path) !== 'counter') {
+            throw new Error(`[CollabDoc ${this.actorId}] ${JSON.stringify(path)} has no counter merge strategy`);
+        }
+        this.commitMerge(path, by);
     }
 
     public delete(path: Path) {
+        this.commitLocalOperation(this.createOperation(path, 'del'));
+    }
+
+    private commitMerge(path: Path, operand: any) {
+        const payload: MergePayload = { value: operand, base: mergeBase(this.metadata, path) };
+        this.commitLocalOperation(this.createOperation(path, 'merge', payload));
+    }
+
+    public getText(path: Path): CollabText {
+        return new CollabText(this, path);
+    }
+
+    public insertText(path: Path, index: number, text: string) {
+        if (text.length === 0) {
+            return;
+        }
+        const state = this.getTextState(path);
+        const payload: TextInsertPayload = {
+            origin: originForIndex(state, index),
+            id: makeSequenceId(nextSequenceCounter(state), this.actorId),
+            text,
+        };
+        this.commitLocalOperation(this.createOperation(path, 'text_insert', payload));
+    }
+
+    public deleteText(path: Path, index: number, length: number) {
+        const state = this.getTextState(path);
+        const ids = visibleNodes(state).slice(Math.max(index, 0), Math.max(index, 0) + length).map((node) => node.id);
+        if (ids.length === 0) {
+            return;
+        }
+        const payload: TextDeletePayload = { ids };
+        this.commitLocalOperation(this.createOperation(path, 'text_delete', payload));
+    }
+
+    public getRichText(path: Path): CollabRichText {
+        return new CollabRichText(this, path);
+    }
+
+    /**
+     * Sets `attributes` on `length` characters from `index`; an attribute set to `null` is
+     * removed. Other attributes of the characters are left as they are.
+     */
+    public formatText(path: Path, index: number, length: number, attributes: TextAttributes) {
+        const nodes = visibleNodes(this.getTextState(path)).slice(Math.max(index, 0), Math.max(index, 0) + length);
+        if (nodes.length === 0 || Object.keys(attributes).length === 0) {
+            return;
+        }
+        const payload: TextFormatPayload = { start: nodes[0].id, end: nodes[nodes.length - 1].id, attributes };
+        this.commitLocalOperation(this.createOperation(path, 'text_format', payload));
+    }
+
+    /** The attributes of each character of the text at `path`, in order. */
+    public getTextFormats(path: Path): TextAttributes[] {
+        const pathKey = JSON.stringify(path);
+        const state = this.texts[pathKey];
+        if (!state) {
+            const current = this.get(path);
+            return typeof current === 'string' ? current.split('').map(() => ({})) : [];
+        }
+        return formatsFromSequence(state);
+    }
+
+    public getList<T = any>(path: Path): CollabList<T> {
+        return new CollabList<T>(this, path);
+    }
+
+    public insertListItems(path: Path, index: number, values: any[]) {
+        if (values.length === 0) {
+            return;
+        }
+        const state = this.getListState(path);
+        const payload: ListInsertPayload = {
+            origin: listOriginForIndex(state, index),
+            id: makeSequenceId(nextSequenceCounter(state.slots), this.actorId),
+            values,
+        };
+        this.commitLocalOperation(this.createOperation(path, 'list_insert', payload));
+    }
+
+    public moveListItem(path: Path, from: number, to: number) {
+        const state = this.getListState(path);
+        const entry = listEntries(state)[from];
+        if (!entry) {
+            console.warn(`[CollabDoc ${this.actorId}] Attempted to move invalid list index: ${from} in path ${JSON.stringify(path)}`);
+            return;
+        }
+        const payload: ListMovePayload = {
+            elementId: entry.id,
+            origin: listOriginForIndex(state, to, entry.id),
+            id: makeSequenceId(nextSequenceCounter(state.slots), this.actorId),
+        };
+        this.commitLocalOperation(this.createOperation(path, 'list_move', payload));
+    }
+
+    public removeListItems(path: Path, index: number, count: number = 1) {
+        const state = this.getListState(path);
+        const ids = listEntries(state).slice(Math.max(index, 0), Math.max(index, 0) + count).map((entry) => entry.id);
+        if (ids.length === 0) {
+            return;
+        }
+        const payload: ListRemovePayload = { ids };
+        this.commitLocalOperation(this.createOperation(path, 'list_remove', payload));
+    }
+
+    /**
+     * Re-applies an inverse recorded by a `localOperation` event as a new local operation.
+     * Returns false when there was nothing left to revert, e.g. because another actor has
+     * since overwritten the value, so undo never clobbers someone else's change.
+     */
+    public applyInverse(inverse: InverseOperation): boolean {
+        switch (inverse.op) {
+            case 'set':
+            case 'del': {
+                // The value may since have been rewritten through a parent path, so look above it too.
+                const owner = latestWrite(this.metadata, inverse.path);
+                const stillOurs = inverse.expect
+                    ? owner?.actorId === inverse.expect.actorId && !owner.deleted
+                    : this.get(inverse.path) === undefined;
+                if (!stillOurs) {
+                    return false;
+                }
+                this.commitLocalOperation(this.createOperation(inverse.path, inverse.op, inverse.value));
+                return true;
+            }
+            case 'text_insert': {
+                const state = this.getTextState(inverse.path);
+                const payload: TextInsertPayload = {
+                    origin: inverse.origin,
+                    id: makeSequenceId(nextSequenceCounter(state), this.actorId),
+                    text: inverse.text,
+                };
+                this.commitLocalOperation(this.createOperation(inverse.path, 'text_insert', payload));
+                if (inverse.formats) {
+                    const { counter, actorId } = parseSequenceId(payload.id);
+                    this.restoreTextFormats(inverse.path, inverse.formats.map((_, i) => makeSequenceId(counter + i, actorId)), inverse.formats);
+                }
+                return true;
+            }
+            case 'text_delete': {
+                const visible = new Set(visibleNodes(this.getTextState(inverse.path)).map((node) => node.id));
+                const ids = inverse.ids.filter((id) => visible.has(id));
+                if (ids.length === 0) {
+                    return false;
+                }
+                this.commitLocalOperation(this.createOperation(inverse.path, 'text_delete', { ids }));
+                return true;
+            }
+            case 'text_format': {
+                const known = new Set(this.getTextState(inverse.path).nodes.map((node) => node.id));
+                const runs = inverse.runs.filter((run) => known.has(run.start) && known.has(run.end));
+                runs.forEach((run) => this.commitLocalOperation(this.createOperation(inverse.path, 'text_format', run)));
+                return runs.length > 0;
+            }
+            case 'list_insert': {
+                const state = this.getListState(inverse.path);
+                const payload: ListInsertPayload = {
+                    origin: inverse.origin,
+                    id: makeSequenceId(nextSequenceCounter(state.slots), this.actorId),
+                    values: inverse.values,
+                };
+                this.commitLocalOperation(this.createOperation(inverse.path, 'list_insert', payload));
+                return true;
+            }
+            case 'list_remove': {
+                const live = new Set(listEntries(this.getListState(inverse.path)).map((entry) => entry.id));
+                const ids = inverse.ids.filter((id) => live.has(id));
+                if (ids.length === 0) {
+                    return false;
+                }
+                this.commitLocalOperation(this.createOperation(inverse.path, 'list_remove', { ids }));
+                return true;
+            }
+            case 'increment':
+                this.increment(inverse.path, inverse.by);
+                return true;
+            case 'merge':
+                return false;
+            case 'list_move': {
+                const state = this.getListState(inverse.path);
+                const element = state.elements[inverse.elementId];
+                if (!element || element.removed) {
+                    return false;
+                }
+                const payload: ListMovePayload = {
+                    elementId: inverse.elementId,
+                    origin: inverse.origin,
+                    id: makeSequenceId(nextSequenceCounter(state.slots), this.actorId),
+                };
+                this.commitLocalOperation(this.createOperation(inverse.path, 'list_move', payload));
+                return true;
+            }
+        }
+    }
+
+    private createOperation(path: Path, type: OperationType, value?: any): Operation {
+        if (!isSafePath(path)) {
+            throw new Error(`[CollabDoc ${this.actorId}] Path ${JSON.stringify(path)} must not contain ${FORBIDDEN_SEGMENTS.join(', ')}`);
+        }
         const op: Operation = {
             id: this.generateOperationId(),
             path,
-            op: 'del',
-            timestamp: Date.now(),
+            op: type,
+            ...this.clock.now(),
             actorId: this.actorId,
             version: (this.getMetadata(path)?.version || 0) + 1
         };
+        if (value !== undefined) {
+            // Snapshot plain values, so the caller changing its object later cannot alter a queued operation.
+            op.value = type === 'set' ? JSON.parse(JSON.stringify(value)) : value;
+        }
+        if (SEQUENCE_OPERATIONS.includes(type)) {
+            op.value = { ...op.value, base: mergeBase(this.metadata, path) };
+        }
+        return op;
+    }
+
+    /**
+     * Runs `fn` and sends every operation it makes as one transaction: peers and the server
+     * apply them all at once, and listeners get a single `change` event instead of one per
+     * operation. Nested calls join the outermost transaction. If `fn` throws, e.g. with a
+     * `SchemaValidationError`, the operations it made are taken back, nothing is sent and
+     * the error is rethrown.
+     */
+    public transact(fn: () => void): void {
+        if (this.transactionDepth === 0) {
+            this.pendingTransaction = {
+                id: this.generateOperationId(),
+                ops: [],
+                saved: {
+                    immutable: this.getImmutable([]) as Record<string, any>,
+                    // Entries are replaced rather than changed by new writes, except for `hiddenValue`.
+                    metadata: Object.fromEntries(Object.entries(this.metadata).map(([pathKey, entry]) => [pathKey, { ...entry }])),
+                    texts: { ...this.texts },
+                    lists: { ...this.lists },
+                    copied: new Set(),
+                },
+            };
+            this.pendingChanges = [];
+        }
+        this.transactionDepth++;
+        let failed = true;
+        try {
+            fn();
+            failed = false;
+        } finally {
+            this.transactionDepth--;
+            if (this.transactionDepth === 0) {
+                const transaction = this.pendingTransaction as PendingTransaction;
+                const changes = this.pendingChanges as ChangePayload[];
+                this.pendingTransaction = null;
+                this.pendingChanges = null;
+                if (failed) {
+                    this.abortTransaction(transaction);
+                } else if (transaction.ops.length > 0) {
+                    this.queueOrSendOperation({
+                        id: transaction.id,
+                        path: [],
+                        op: 'transaction',
+                        value: transaction.ops,
+                        ...this.clock.now(),
+                        actorId: this.actorId,
+                        version: 0
+                    });
+                }
+                if (!failed) {
+                    this.emitAggregatedChange(changes, false);
+                }
+            }
+        }
+    }
+
+    /** Brings the document back to how it was before `transaction`, which is dropped unsent. */
+    private abortTransaction(transaction: PendingTransaction) {
+        const { saved } = transaction;
+        this.doc = cloneValue(saved.immutable);
+        this.immutable = saved.immutable;
+        this.staleImmutablePaths = [];
+        this.metadata = saved.metadata;
+        this.texts = saved.texts;
+        this.lists = saved.lists;
+        this.schedulePersist();
+        if (transaction.ops.length > 0) {
+            this.emit('transactionAborted', transaction.id);
+        }
+    }
+
+    /** Copies the text or list state `op` is about to change, the first time in a transaction. */
+    private saveSequenceState(op: Operation) {
+        const saved = this.pendingTransaction?.saved;
+        const pathKey = JSON.stringify(op.path);
+        if (!saved || saved.copied.has(pathKey)) {
+            return;
+        }
+        saved.copied.add(pathKey);
+        if (op.op.startsWith('text_') && saved.texts[pathKey]) {
+            saved.texts[pathKey] = cloneValue(saved.texts[pathKey]);
+        } else if (op.op.startsWith('list_') && saved.lists[pathKey]) {
+            saved.lists[pathKey] = cloneValue(saved.lists[pathKey]);
+        }
+    }
+
+    private commitLocalOperation(op: Operation) {
+        if (this.schema) {
+            const violations = newViolations(this.schema, this.doc, this.previewOperation(op));
+            if (violations.length > 0) {
+                throw new SchemaValidationError(violations);
+            }
+        }
+        const inverse = this.captureInverse(op);
+        this.saveSequenceState(op);
         this.applyOperation(op);
+        if (this.pendingTransaction) {
+            this.pendingTransaction.ops.push(op);
+            this.emit('localOperation', { op, inverse, transaction: this.pendingTransaction.id });
+            return;
+        }
         this.queueOrSendOperation(op);
+        this.emit('localOperation', { op, inverse });
+    }
+
+    private emitChange(payload: ChangePayload) {
+        this.schedulePersist();
+        if (this.pendingChanges) {
+            this.pendingChanges.push(payload);
+        } else {
+            this.emit('change', payload);
+            this.notifyObservers([payload]);
+        }
+    }
+
+    private emitAggregatedChange(changes: ChangePayload[], isRemote: boolean) {
+        if (changes.length > 0) {
+            this.emit('change', { path: [], action: 'transaction', isRemote, changes });
+            this.notifyObservers(changes);
+        }
+    }
+
+    /** The document as it would be after applying local operation `op`, leaving the real one untouched. */
+    private previewOperation(op: Operation): Record<string, any> {
+        const preview = JSON.parse(JSON.stringify(this.doc));
+        switch (op.op) {
+            case 'set':
+                this.mutateDocument(op.path, 'set', op.value, preview);
+                break;
+            case 'del':
+                this.mutateDocument(op.path, 'del', undefined, preview);
+                pruneEmptyAncestors(preview, this.metadata, op.path);
+                break;
+            case 'text_format':
+                // Formatting does not change the text itself.
+                break;
+            case 'text_insert':
+            case 'text_delete': {
+                const state: SequenceState<string> = JSON.parse(JSON.stringify(this.getTextState(op.path)));
+                if (op.op === 'text_insert') {
+                    applyTextInsert(state, op.value as TextInsertPayload);
+                } else {
+                    applyTextDelete(state, op.value as TextDeletePayload);
+                }
+                this.mutateDocument(op.path, 'set', textFromSequence(state), preview);
+                break;
+            }
+            case 'list_insert':
+            case 'list_remove':
+            case 'list_move': {
+                const state: ListState = JSON.parse(JSON.stringify(this.getListState(op.path)));
+                if (op.op === 'list_insert') {
+                    applyListInsert(state, op.value as ListInsertPayload);
+                } else if (op.op === 'list_remove') {
+                    applyListRemove(state, op.value as ListRemovePayload);
+                } else {
+                    applyListMove(state, op.value as ListMovePayload);
+                }
+                this.mutateDocument(op.path, 'set', valuesFromList(state), preview);
+                break;
+            }
+            case 'merge':
+                if (!isStaleMerge(this.metadata, op.path, op.value as MergePayload)) {
+                    this.mutateDocument(op.path, 'set', this.mergedValue(op), preview);
+                }
+                break;
+        }
+        return preview;
+    }
+
+    /** Describes how to revert `op`, using the state from just before it is applied. */
+    private captureInverse(op: Operation): InverseOperation {
+        switch (op.op) {
+            case 'set':
+            case 'del': {
+                const expect = op.op === 'set' ? { actorId: op.actorId } : null;
+                const previous = this.get(op.path);
+                return previous === undefined
+                    ? { op: 'del', path: op.path, expect }
+                    : { op: 'set', path: op.path, value: JSON.parse(JSON.stringify(previous)), expect };
+            }
+            case 'text_insert': {
+                const payload = op.value as TextInsertPayload;
+                const { counter, actorId } = parseSequenceId(payload.id);
+                const ids = payload.text.split('').map((_, i) => makeSequenceId(counter + i, actorId));
+                return { op: 'text_delete', path: op.path, ids };
+            }
+            case 'text_delete': {
+                const state = this.getTextState(op.path);
+                const toDelete = new Set((op.value as TextDeletePayload).ids);
+                const first = state.nodes.findIndex((node) => toDelete.has(node.id));
+                const deleted = state.nodes.filter((node) => toDelete.has(node.id) && !node.deleted);
+                const formats = state.marks ? this.formatsOf(state, deleted.map((node) => node.id)) : [];
+                return {
+                    op: 'text_insert',
+                    path: op.path,
+                    origin: first > 0 ? state.nodes[first - 1].id : null,
+                    text: deleted.map((node) => node.value).join(''),
+                    replaces: deleted.map((node) => node.id),
+                    ...(formats.some((format) => Object.keys(format).length > 0) ? { formats } : {}),
+                };
+            }
+            case 'text_format': {
+                const state = this.getTextState(op.path);
+                const payload = op.value as TextFormatPayload;
+                const first = state.nodes.findIndex((node) => node.id === payload.start);
+                const last = state.nodes.findIndex((node) => node.id === payload.end);
+                const ids = first === -1 || last < first ? [] : state.nodes.slice(first, last + 1).map((node) => node.id);
+                const runs: TextFormatPayload[] = [];
+                this.formatsOf(state, ids).forEach((format, i) => {
+                    const attributes = Object.fromEntries(Object.keys(payload.attributes).map((name) => [name, format[name] ?? null]));
+                    const run = runs[runs.length - 1];
+                    if (run && JSON.stringify(run.attributes) === JSON.stringify(attributes)) {
+                        run.end = ids[i];
+                    } else {
+                        runs.push({ start: ids[i], end: ids[i], attributes });
+                    }
+                });
+                return { op: 'text_format', path: op.path, runs };
+            }
+            case 'list_insert': {
+                const payload = op.value as ListInsertPayload;
+                const { counter, actorId } = parseSequenceId(payload.id);
+                const ids = payload.values.map((_, i) => makeSequenceId(counter + i, actorId));
+                return { op: 'list_remove', path: op.path, ids };
+            }
+            case 'list_remove': {
+                const state = this.getListState(op.path);
+                const toRemove = new Set((op.value as ListRemovePayload).ids);
+                const removed = listEntries(state).filter((entry) => toRemove.has(entry.id));
+                const first = removed.length > 0 ? state.slots.nodes.findIndex((node) => node.id === removed[0].slot) : -1;
+                return {
+                    op: 'list_insert',
+                    path: op.path,
+                    origin: first > 0 ? state.slots.nodes[first - 1].id : null,
+                    values: removed.map((entry) => JSON.parse(JSON.stringify(entry.value))),
+                    replaces: removed.map((entry) => entry.id),
+                };
+            }
+            case 'list_move': {
+                const state = this.getListState(op.path);
+                const elementId = (op.value as ListMovePayload).elementId;
+                const current = state.slots.nodes.findIndex((node) => node.id === state.elements[elementId]?.slot);
+                return { op: 'list_move', path: op.path, elementId, origin: current > 0 ? state.slots.nodes[current - 1].id : null };
+            }
+            case 'merge':
+                return strategyFor(this.mergeStrategies, op.path) === 'counter'
+                    ? { op: 'increment', path: op.path, by: -(op.value as MergePayload).value }
+                    : { op: 'merge', path: op.path };
+            default:
+                throw new Error(`[CollabDoc ${this.actorId}] Cannot invert operation type: ${op.op}`);
+        }
+    }
+
+    /** Returns the list CRDT at `path`, seeding it from the current array value on first use. */
+    private getListState(path: Path): ListState {
+        const pathKey = JSON.stringify(path);
+        if (!this.lists[pathKey]) {
+            const current = this.get(path);
+            this.lists[pathKey] = createList(Array.isArray(current) ? current : []);
+        }
+        return this.lists[pathKey];
+    }
+
+    /** Returns the text CRDT at `path`, seeding it from the current string value on first use. */
+    private getTextState(path: Path): SequenceState<string> {
+        const pathKey = JSON.stringify(path);
+        if (!this.texts[pathKey]) {
+            const current = this.get(path);
+            this.texts[pathKey] = createSequence(typeof current === 'string' ? current.split('') : []);
+        }
+        return this.texts[pathKey];
+    }
+
+    /** The attributes of the characters `ids` of `state`, deleted ones included. */
+    private formatsOf(state: SequenceState<string>, ids: SequenceId[]): TextAttributes[] {
+        // Formats of every node: a copy of the text with none deleted.
+        const formats = formatsFromSequence({ nodes: state.nodes.map((node) => ({ ...node, deleted: false })), marks: state.marks });
+        const positions = new Map(state.nodes.map((node, i) => [node.id, i]));
+        return ids.map((id) => formats[positions.get(id) as number] ?? {});
+    }
+
+    /** Gives the characters `ids` of the text at `path` exactly the attributes in `formats`. */
+    private restoreTextFormats(path: Path, ids: SequenceId[], formats: TextAttributes[]) {
+        const current = this.formatsOf(this.getTextState(path), ids);
+        // The attributes to set per character: the wanted ones, and `null` for the others it has.
+        const changes = formats.map((format, i) => ({
+            ...Object.fromEntries(Object.keys(current[i]).map((name) => [name, null])),
+            ...format,
+        }));
+        let start = 0;
+        for (let i = 1; i <= ids.length; i++) {
+            if (i < ids.length && JSON.stringify(changes[i]) === JSON.stringify(changes[start])) {
+                continue;
+            }
+            const unchanged = current.slice(start, i).every((format, j) => JSON.stringify(format) === JSON.stringify(formats[start + j]));
+            if (!unchanged && Object.keys(changes[start]).length > 0) {
+                const payload: TextFormatPayload = { start: ids[start], end: ids[i - 1], attributes: changes[start] };
+                this.commitLocalOperation(this.createOperation(path, 'text_format', payload));
+            }
+            start = i;
+        }
+    }
+
+    /** Drops text and list CRDTs at or below `path` once a plain `set`/`del` has replaced that subtree. */
+    private clearSequencesUnder(path: Path) {
+        const prefix = JSON.stringify(path).slice(0, -1);
+        for (const store of [this.texts, this.lists] as { [path: string]: unknown }[]) {
+            for (const pathKey of Object.keys(store)) {
+                if (pathKey === JSON.stringify(path) || pathKey.startsWith(prefix + ',')) {
+                    delete store[pathKey];
+                }
+            }
+        }
     }
 
-    private getMetadata(path: Path): { timestamp: number; actorId: string; version: number } | undefined {
+    private getMetadata(path: Path): PathMetadata | undefined {
         const pathKey = JSON.stringify(path);
         return this.metadata[pathKey];
     }
@@ -186,129 +1184,564 @@ export default class CollabDoc extends BrowserEventEmitter<CollabDocEvents> {
     }
 
     private queueOrSendOperation(op: Operation) {
+        this.schedulePersist();
         if (!this.isLiveMode) {
             this.offlineQueue.push(op);
+            this.emit('pendingChanges');
             return;
         }
 
         if (this.connected && this.syncedWithServer) {
-            this.socket.emit('operation', this.roomId, op);
+            this.outbox.push(op);
+            if (this.batchDelayMs === 0) {
+                this.flushOutbox();
+            } else if (this.outboxTimer === null) {
+                this.outboxTimer = setTimeout(() => this.flushOutbox(), this.batchDelayMs);
+            }
         } else {
             this.offlineQueue.push(op);
         }
     }
 
+    /** Sends the operations collected for the current batch, or queues them if the connection was lost meanwhile. */
+    private flushOutbox() {
+        if (this.outboxTimer !== null) {
+            clearTimeout(this.outboxTimer);
+            this.outboxTimer = null;
+        }
+        if (this.outbox.length === 0) {
+            return;
+        }
+        this.offlineQueue.push(...this.outbox);
+        this.outbox = [];
+        this.schedulePersist();
+        this.processOfflineQueue();
+    }
+
+    /**
+     * Sends the queued operations that are not waiting for an `ack` on this connection: ones
+     * sent before a reconnect as they were, newer ones coalesced first. Without
+     * `operation_acks` nothing would confirm them, so they leave the queue once sent.
+     */
     private processOfflineQueue() {
-        if (this.connected && this.syncedWithServer && this.offlineQueue.length > 0) {
-            const opsToSend = [...this.offlineQueue];
-            this.offlineQueue = [];
+        if (!this.connected || !this.syncedWithServer) {
+            return;
+        }
+        const resend = this.offlineQueue.filter(op => this.sent.has(op.id) && !this.inFlight.has(op.id));
+        const fresh = coalesceOperations(this.offlineQueue.filter(op => !this.sent.has(op.id)));
+        const opsToSend = [...resend, ...fresh];
+        if (opsToSend.length === 0) {
+            return;
+        }
+        if (this.connection.getProtocol()?.features.includes('operation_acks')) {
+            // Sent operations come first in the queue, as they were made before the fresh ones.
+            this.offlineQueue = [...this.offlineQueue.filter(op => this.sent.has(op.id)), ...fresh];
             opsToSend.forEach(op => {
-                this.socket.emit('operation', this.roomId, op);
+                this.sent.add(op.id);
+                this.inFlight.add(op.id);
+            });
+        } else {
+            this.offlineQueue = [];
+            this.sent.clear();
+        }
+        this.schedulePersist();
+        this.sendOperations(opsToSend);
+    }
+
+    /** One binary batch when the server accepted it, otherwise one JSON message per operation. */
+    private sendOperations(ops: Operation[]) {
+        if (this.connection.getProtocol()?.features.includes('binary_batches')) {
+            this.channel.send('operations', this.roomId, encodeOperations(ops));
+        } else {
+            ops.forEach(op => {
+                this.channel.send('operation', this.roomId, op);
             });
         }
     }
 
+    /**
+     * Operations the server has decided on leave the queue, whatever the outcome. The ones
+     * that did not take effect are reported; the local copy keeps them until it is overwritten,
+     * which for `superseded` ones has already happened or is on its way.
+     */
+    private handleAcks(acks: OperationAck[]) {
+        const rejections: RejectedOperation[] = [];
+        acks.forEach(({ operationId, outcome, ...details }) => {
+            const operation = this.offlineQueue.find(op => op.id === operationId);
+            if (operation && outcome !== 'applied') {
+                rejections.push({ operation: JSON.parse(JSON.stringify(operation)), outcome, ...details });
+            }
+        });
+        this.confirmOperations(acks.map(ack => ack.operationId));
+        rejections.forEach(rejection => {
+            console.warn(`[CollabDoc ${this.actorId}] Operation ${rejection.operation.id} was ${rejection.outcome}${rejection.message ? `: ${rejection.message}` : ''}`);
+            this.emit(rejection.outcome === 'superseded' ? 'conflict' : 'rejected', rejection);
+        });
+    }
+
+    /** Drops operations the server has stored, or refused for good, from the queue. */
+    private confirmOperations(operationIds: string[]) {
+        const confirmed = new Set(operationIds);
+        const remaining = this.offlineQueue.filter(op => !confirmed.has(op.id));
+        operationIds.forEach(id => {
+            this.inFlight.delete(id);
+            this.sent.delete(id);
+        });
+        if (remaining.length !== this.offlineQueue.length) {
+            this.offlineQueue = remaining;
+            this.schedulePersist();
+        }
+    }
+
     private applyRemoteOperation(op: Operation) {
-        const indexInQueue = this.offlineQueue.findIndex(queuedOp => queuedOp.id === op.id);
-        if (indexInQueue !== -1) {
-            this.offlineQueue.splice(indexInQueue, 1);
+        this.schedulePersist();
+        // Our own operation coming back is as good as its `ack`; it is applied already.
+        if (this.offlineQueue.some(queuedOp => queuedOp.id === op.id)) {
+            this.confirmOperations([op.id]);
             return;
         }
 
         if (!this.isLiveMode) {
             this.remoteOperationsBuffer.push(op);
+            this.emit('pendingChanges');
             return;
         }
         this.applyOperation(op, true);
     }
 
     private applyOperation(op: Operation, isRemote: boolean = false) {
-        const pathKey = JSON.stringify(op.path);
-        const existingMetadata = this.metadata[pathKey];
-        let apply = true;
+        if (!isSafePath(op.path)) {
+            console.warn(`[CollabDoc ${this.actorId}] Ignoring operation with unsafe path: ${JSON.stringify(op.path)}`);
+            return;
+        }
+        if (isRemote) {
+            this.clock.receive(op);
+        }
+        if (op.op === 'transaction') {
+            this.applyTransaction(op, isRemote);
+            return;
+        }
+        // Dropped once the value it edits was replaced, see `SequenceEdit.base`.
+        if (isRemote && SEQUENCE_OPERATIONS.includes(op.op) && isStaleEdit(this.metadata, op.path, op, op.value?.base)) {
+            return;
+        }
+        if (op.op === 'text_insert' || op.op === 'text_delete' || op.op === 'text_format') {
+            this.applyTextOperation(op, isRemote);
+            return;
+        }
+        if (op.op === 'list_insert' || op.op === 'list_remove' || op.op === 'list_move') {
+            this.applyListOperation(op, isRemote);
+            return;
+        }
+        if (op.op === 'merge') {
+            this.applyMergeOperation(op, isRemote);
+            return;
+        }
+
+        // Loses to a later write of this path or of any path above it (see lww.ts).
+        if (isRemote && isSuperseded(this.metadata, op.path, op)) {
+            return;
+        }
 
-        if (isRemote && existingMetadata) {
-            const incomingWinsByTimestamp = op.timestamp > existingMetadata.timestamp;
-            const timestampsAreEqual = op.timestamp === existingMetadata.timestamp;
-            const incomingWinsByActorId = timestampsAreEqual && op.actorId < existingMetadata.actorId;
-            const incomingWins = incomingWinsByTimestamp || incomingWinsByActorId;
+        // Writes below this path made after it are kept, as if everything had arrived in clock order.
+        const preserved = newerDescendants(this.metadata, op.path, op)
+            .map((entry) => ({ ...entry, value: preservedValue(this.doc, entry) }));
+        // A copy, so later edits below this path never reach back into the operation itself.
+        const value = op.op === 'set' && op.value !== undefined ? JSON.parse(JSON.stringify(op.value)) : undefined;
+        const mutated = this.mutateDocument(op.path, op.op, value);
+        this.clearSequencesUnder(op.path);
+        // Deletes are recorded even when there was nothing to delete, so an older write arriving later still loses.
+        recordWrite(this.metadata, op.path, {
+            timestamp: op.timestamp,
+            counter: op.counter,
+            actorId: op.actorId,
+            version: op.version,
+            ...(op.op === 'del' ? { deleted: true } : mutated ? {} : { hiddenValue: value })
+        });
+        if (op.op === 'del') {
+            pruneEmptyAncestors(this.doc, this.metadata, op.path);
+        }
+        preserved.forEach((entry) => {
+            if (entry.metadata.deleted) {
+                this.mutateDocument(entry.path, 'del');
+                pruneEmptyAncestors(this.doc, this.metadata, entry.path);
+            } else if (this.mutateDocument(entry.path, 'set', entry.value)) {
+                delete entry.metadata.hiddenValue;
+            } else {
+                entry.metadata.hiddenValue = entry.value;
+            }
+        });
+        if (mutated) {
+            this.emitChange({ path: op.path, action: op.op, value: op.op === 'set' && preserved.length > 0 ? this.get(op.path) : op.value, isRemote });
+        }
+    }
+
+    /**
+     * Folds a merge into the value at its path, unless the write it built on has been
+     * replaced. Like on the server, merges leave no metadata of their own.
+     */
+    private applyMergeOperation(op: Operation, isRemote: boolean) {
+        if (isStaleMerge(this.metadata, op.path, op.value as MergePayload)) {
+            return;
+        }
+        const merged = this.mergedValue(op);
+        this.clearSequencesUnder(op.path);
+        if (this.mutateDocument(op.path, 'set', merged)) {
+            this.emitChange({ path: op.path, action: 'merge', value: merged, isRemote });
+        }
+    }
+
+    /** The value at the path of merge `op` once it is folded in. */
+    private mergedValue(op: Operation): any {
+        const current = this.get(op.path);
+        const merged = applyMerge(strategyFor(this.mergeStrategies, op.path), current === undefined ? undefined : JSON.parse(JSON.stringify(current)), (op.value as MergePayload).value);
+        return merged === undefined ? undefined : JSON.parse(JSON.stringify(merged));
+    }
 
-            if (!incomingWins) {
-                apply = false;
+    private applyTransaction(op: Operation, isRemote: boolean) {
+        const outer = this.pendingChanges;
+        this.pendingChanges = [];
+        try {
+            (op.value as Operation[]).forEach((subOp) => this.applyOperation(subOp, isRemote));
+        } finally {
+            const changes = this.pendingChanges;
+            this.pendingChanges = outer;
+            if (outer) {
+                outer.push(...changes);
+            } else {
+                this.emitAggregatedChange(changes, isRemote);
             }
-        } 
+        }
+    }
 
+    private applyTextOperation(op: Operation, isRemote: boolean) {
+        const state = this.getTextState(op.path);
+        if (op.op === 'text_insert') {
+            applyTextInsert(state, op.value as TextInsertPayload);
+        } else if (op.op === 'text_delete') {
+            applyTextDelete(state, op.value as TextDeletePayload);
+        } else {
+            applyTextFormat(state, op.value as TextFormatPayload, op);
+        }
+        const text = textFromSequence(state);
+        if (this.mutateDocument(op.path, 'set', text)) {
+            this.emitChange({ path: op.path, action: op.op, value: text, isRemote });
+        }
+    }
 
-        if (apply) {
-            const pathToModify = op.path;
-            const targetValue = op.value;
-            const action = op.op;
+    private applyListOperation(op: Operation, isRemote: boolean) {
+        const state = this.getListState(op.path);
+        if (op.op === 'list_insert') {
+            applyListInsert(state, op.value as ListInsertPayload);
+        } else if (op.op === 'list_remove') {
+            applyListRemove(state, op.value as ListRemovePayload);
+        } else {
+            applyListMove(state, op.value as ListMovePayload);
+        }
+        const values = valuesFromList(state);
+        if (this.mutateDocument(op.path, 'set', values)) {
+            this.emitChange({ path: op.path, action: op.op, value: values, isRemote });
+        }
+    }
 
-            let current: any = this.doc;
-            for (let i = 0; i < pathToModify.length - 1; i++) {
-                const segment = pathToModify[i];
-                if (typeof current !== 'object' || current === null) {
-                    console.warn(`[CollabDoc ${this.actorId}] Invalid path for operation: ${JSON.stringify(pathToModify)}. Current path segment: ${segment}, current value:`, current);
-                    return;
-                }
-                if (!current.hasOwnProperty(segment) || current[segment] === null || typeof current[segment] !== 'object' || (Array.isArray(current[segment]) !== (typeof pathToModify[i+1] === 'number'))) {
-                    if (action === 'set') {
-                        current[segment] = typeof pathToModify[i+1] === 'number' ? [] : {};
-                    } else if (action === 'del') {
-                        console.warn(`[CollabDoc ${this.actorId}] Intermediate path segment not found for DELETE: ${segment} in ${JSON.stringify(pathToModify)}`);
-                        return;
-                    }
+    private mutateDocument(pathToModify: Path, action: 'set' | 'del', targetValue?: any, target: Record<string, any> = this.doc): boolean {
+        if (target === this.doc) {
+            this.markChanged(pathToModify);
+        }
+        let current: any = target;
+        for (let i = 0; i < pathToModify.length - 1; i++) {
+            const segment = pathToModify[i];
+            if (typeof current !== 'object' || current === null) {
+                console.warn(`[CollabDoc ${this.actorId}] Invalid path for operation: ${JSON.stringify(pathToModify)}. Current path segment: ${segment}, current value:`, current);
+                return false;
+            }
+            if (current.hasOwnProperty(segment) && current[segment] !== undefined && (current[segment] === null || typeof current[segment] !== 'object')) {
+                // Writing below a plain value is ignored, whatever order the writes arrive in (see lww.ts).
+                console.warn(`[CollabDoc ${this.actorId}] Path segment ${segment} in ${JSON.stringify(pathToModify)} holds a plain value, ignoring ${action.toUpperCase()}`);
+                return false;
+            }
+            if (!current.hasOwnProperty(segment) || current[segment] === undefined || (Array.isArray(current[segment]) !== (typeof pathToModify[i+1] === 'number'))) {
+                if (action === 'set') {
+                    current[segment] = typeof pathToModify[i+1] === 'number' ? [] : {};
+                } else if (action === 'del') {
+                    console.warn(`[CollabDoc ${this.actorId}] Intermediate path segment not found for DELETE: ${segment} in ${JSON.stringify(pathToModify)}`);
+                    return false;
                 }
-                current = current[segment];
             }
+            current = current[segment];
+        }
 
-            const lastSegment = pathToModify[pathToModify.length - 1];
+        const lastSegment = pathToModify[pathToModify.length - 1];
 
-            if (action === 'set') {
-                current[lastSegment] = targetValue;
-            } else if (action === 'del') {
-                if (Array.isArray(current) && typeof lastSegment === 'number') {
-                    if (lastSegment >= 0 && lastSegment < current.length) {
-                        current.splice(lastSegment, 1);
-                    } else {
-                        console.warn(`[CollabDoc ${this.actorId}] Attempted to delete invalid array index: ${lastSegment} in path ${JSON.stringify(pathToModify)}`);
-                    }
-                } else if (typeof current === 'object' && current !== null && current.hasOwnProperty(lastSegment)) {
-                    delete current[lastSegment];
+        if (action === 'set') {
+            current[lastSegment] = targetValue;
+        } else if (action === 'del') {
+            if (Array.isArray(current) && typeof lastSegment === 'number') {
+                if (lastSegment >= 0 && lastSegment < current.length) {
+                    current.splice(lastSegment, 1);
                 } else {
-                    console.warn(`[CollabDoc ${this.actorId}] Attempted to delete non-existent or invalid path segment: ${JSON.stringify(pathToModify)}`);
+                    console.warn(`[CollabDoc ${this.actorId}] Attempted to delete invalid array index: ${lastSegment} in path ${JSON.stringify(pathToModify)}`);
                 }
+            } else if (typeof current === 'object' && current !== null && current.hasOwnProperty(lastSegment)) {
+                delete current[lastSegment];
+            } else {
+                console.warn(`[CollabDoc ${this.actorId}] Attempted to delete non-existent or invalid path segment: ${JSON.stringify(pathToModify)}`);
             }
+        }
+        return true;
+    }
+
+    private initializeMetadata(initialMetadata: { [path: string]: PathMetadata }) {
+        this.metadata = JSON.parse(JSON.stringify(initialMetadata));
+        Object.values(this.metadata).forEach((entry) => this.clock.receive(entry));
+    }
+
+    /**
+     * Sets this client's ephemeral presence (cursor, selection, user info). It is relayed to
+     * everyone in the room but never stored; pass `null` to clear it.
+     */
+    public setLocalState(state: Record<string, any> | null): void {
+        this.localAwarenessState = state === null ? null : JSON.parse(JSON.stringify(state));
+        this.publishLocalState();
+        this.emit('awareness', state === null
+            ? { updated: [], removed: [this.actorId] }
+            : { updated: [this.actorId], removed: [] });
+    }
 
-            if (op.op === 'del') {
-                delete this.metadata[pathKey];
+    public getLocalState(): Record<string, any> | null {
+        return this.localAwarenessState === null ? null : JSON.parse(JSON.stringify(this.localAwarenessState));
+    }
+
+    /** Presence of everyone in the room, keyed by actor id, including this client's own state. */
+    public getStates(): { [actorId: string]: Record<string, any> } {
+        const states: { [actorId: string]: Record<string, any> } = JSON.parse(JSON.stringify(this.remoteAwarenessStates));
+        if (this.localAwarenessState !== null) {
+            states[this.actorId] = JSON.parse(JSON.stringify(this.localAwarenessState));
+        }
+        return states;
+    }
+
+    private publishLocalState() {
+        if (this.connected && this.syncedWithServer) {
+            this.channel.send('awareness', this.roomId, this.actorId, this.localAwarenessState);
+        }
+    }
+
+    private startAwarenessHeartbeat() {
+        this.stopAwarenessHeartbeat();
+        this.awarenessHeartbeat = setInterval(() => {
+            if (this.localAwarenessState !== null) {
+                this.publishLocalState();
+            }
+        }, AWARENESS_HEARTBEAT_MS);
+    }
+
+    private stopAwarenessHeartbeat() {
+        if (this.awarenessHeartbeat !== null) {
+            clearInterval(this.awarenessHeartbeat);
+            this.awarenessHeartbeat = null;
+        }
+    }
+
+    private applyAwarenessUpdates(updates: { [actorId: string]: Record<string, any> | null }) {
+        const updated: string[] = [];
+        const removed: string[] = [];
+        for (const [actorId, state] of Object.entries(updates)) {
+            if (actorId === this.actorId) {
+                continue;
+            }
+            if (state === null) {
+                if (this.remoteAwarenessStates[actorId]) {
+                    delete this.remoteAwarenessStates[actorId];
+                    removed.push(actorId);
+                }
             } else {
-                this.metadata[pathKey] = {
-                    timestamp: op.timestamp,
-                    actorId: op.actorId,
-                    version: op.version
-                };
+                this.remoteAwarenessStates[actorId] = state;
+                updated.push(actorId);
             }
-            this.emit('change', { path: op.path, action: op.op, value: op.value, isRemote });
+        }
+        if (updated.length > 0 || removed.length > 0) {
+            this.emit('awareness', { updated, removed });
         }
     }
 
-    private initializeMetadata(initialMetadata: { [path: string]: { timestamp: number; actorId: string; version: number } }) {
-        this.metadata = JSON.parse(JSON.stringify(initialMetadata));
+    /** Resolves once the persistence adapter's cached state has been loaded (immediately without one). */
+    public whenRestored(): Promise<void> {
+        return this.restored;
     }
 
-    public getDocumentState(): Record<string, any> {
+    private async restoreFromPersistence(): Promise<void> {
+        if (!this.persistence) {
+            return;
+        }
+        let stored: PersistedDocument | null;
+        try {
+            stored = await this.persistence.load(this.roomId);
+        } catch (err: any) {
+            console.warn(`[CollabDoc ${this.actorId}] Failed to restore persisted state:`, err);
+            this.emit('error', { code: 'persistence_failed', message: err?.message ?? String(err) });
+            return;
+        }
+        if (stored) {
+            // Edits made while loading were applied to the empty document; replay them on top.
+            const madeWhileLoading = this.offlineQueue;
+            this.doc = stored.doc;
+            this.markChanged([]);
+            this.initializeMetadata(stored.metadata);
+            this.texts = stored.texts;
+            this.lists = stored.lists;
+            this.lastSeq = stored.lastSeq;
+            this.offlineQueue = [...stored.offlineQueue];
+            // They may have been sent before the reload, so they must keep their ids.
+            this.sent = new Set(this.offlineQueue.map((op) => op.id));
+            stored.remoteOperationsBuffer.forEach((op) => {
+                if (this.isLiveMode) {
+                    this.applyOperation(op, true);
+                } else {
+                    this.remoteOperationsBuffer.push(op);
+                }
+            });
+            madeWhileLoading.forEach((op) => {
+                this.applyOperation(op);
+                this.offlineQueue.push(op);
+            });
+            this.schedulePersist();
+            this.notifyObservers([]);
+        }
+        this.emit('restored');
+    }
+
+    /** Saves the document after the current burst of changes; saves never overlap or reorder. */
+    private schedulePersist() {
+        if (!this.persistence || this.persistScheduled) {
+            return;
+        }
+        const persistence = this.persistence;
+        this.persistScheduled = true;
+        this.persisting = this.persisting
+            .then(() => this.restored)
+            .then(() => {
+                this.persistScheduled = false;
+                return persistence.save(this.roomId, this.toPersistedDocument());
+            })
+            .catch((err: any) => {
+                this.persistScheduled = false;
+                console.warn(`[CollabDoc ${this.actorId}] Failed to persist state:`, err);
+                this.emit('error', { code: 'persistence_failed', message: err?.message ?? String(err) });
+            });
+    }
+
+    private toPersistedDocument(): PersistedDocument {
+        return JSON.parse(JSON.stringify({
+            doc: this.doc,
+            metadata: this.metadata,
+            texts: this.texts,
+            lists: this.lists,
+            offlineQueue: [...this.offlineQueue, ...this.outbox],
+            remoteOperationsBuffer: this.remoteOperationsBuffer,
+            lastSeq: this.lastSeq,
+        }));
+    }
+
+    /** A deep, mutable copy of the document. Prefer `getImmutable` for reading, which does not copy. */
+    public getDocumentState(): T {
         return JSON.parse(JSON.stringify(this.doc));
     }
 
+    /**
+     * The value at `path` (the whole document by default) as a frozen object that is shared
+     * between calls: parts of the document that have not changed since an earlier call are
+     * the very same objects, so they can be compared with `===`. Must not be mutated.
+     */
+    public getImmutable<P extends Path = []>(path?: [...P]): PathValue<T, P> | undefined {
+        if (this.staleImmutablePaths.length > 0) {
+            const stale = this.staleImmutablePaths;
+            this.staleImmutablePaths = [];
+            stale.forEach((changedPath) => {
+                this.immutable = updateImmutable(this.immutable, this.doc, changedPath);
+            });
+        }
+        return immutableValueAt(this.immutable, path ?? []);
+    }
+
+    /**
+     * Calls `callback` when the value at `path` is set, deleted or replaced, including through
+     * a write to a path above it, or when entries are added to, removed from or replaced in it.
+     * Edits nested deeper inside its entries are ignored; use `observeDeep` for those. Returns
+     * a function that stops observing.
+     */
+    public observe<P extends Path>(path: [...P], callback: (event: ObserveEvent<PathValue<T, P>>) => void): () => void {
+        return this.addObserver(path, false, callback);
+    }
+
+    /** Like `observe`, but also fires for changes anywhere beneath `path`. */
+    public observeDeep<P extends Path>(path: [...P], callback: (event: ObserveEvent<PathValue<T, P>>) => void): () => void {
+        return this.addObserver(path, true, callback);
+    }
+
+    private addObserver(path: Path, deep: boolean, callback: (event: ObserveEvent) => void): () => void {
+        const observer: DocumentObserver = { path: [...path], deep, callback, value: this.getImmutable(path) };
+        this.observers.push(observer);
+        return () => {
+            this.observers = this.observers.filter((existing) => existing !== observer);
+        };
+    }
+
+    /** Records that `doc` changed at `path`, so `immutable` is brought up to date on next read. */
+    private markChanged(path: Path) {
+        const covered = this.staleImmutablePaths.some((stale) => isPrefix(stale, path));
+        if (!covered) {
+            this.staleImmutablePaths = this.staleImmutablePaths.filter((stale) => !isPrefix(path, stale));
+            this.staleImmutablePaths.push([...path]);
+        }
+    }
+
+    /** Calls the observers whose value changed, comparing frozen copies rather than the changes themselves. */
+    private notifyObservers(changes: ChangePayload[]) {
+        if (this.observers.length === 0) {
+            return;
+        }
+        [...this.observers].forEach((observer) => {
+            const previousValue = observer.value;
+            const value = this.getImmutable(observer.path);
+            if (value === previousValue) {
+                return;
+            }
+            observer.value = value;
+            if (!observer.deep && !shallowChanged(previousValue, value)) {
+                return;
+            }
+            const related = changes.filter((change) => isPrefix(change.path, observer.path) || isPrefix(observer.path, change.path));
+            try {
+                observer.callback({ path: observer.path, value, previousValue, changes: related });
+            } catch (e) {
+                console.error(`[CollabDoc ${this.actorId}] Error in observer for ${JSON.stringify(observer.path)}:`, e);
+            }
+        });
+    }
+
     public getOfflineQueue(): Operation[] {
-        return JSON.parse(JSON.stringify(this.offlineQueue));
+        return JSON.parse(JSON.stringify([...this.offlineQueue, ...this.outbox]));
     }
 
     public isConnected(): boolean {
         return this.connected;
     }
 
+    public getConnectionState(): ConnectionState {
+        return this.connectionState;
+    }
+
+    /** Protocol version and optional features in use with the server, or `null` while disconnected. */
+    public getProtocol(): NegotiatedProtocol | null {
+        return this.connected ? this.connection.getProtocol() : null;
+    }
+
+    /** The socket this document uses, which other documents can share. */
+    public getConnection(): CollabConnection {
+        return this.connection;
+    }
+
     public pause(): void {
         if (this.isLiveMode) {
             this.isLiveMode = false;
@@ -326,12 +1759,246 @@ export default class CollabDoc extends BrowserEventEmitter<CollabDocEvents> {
                 }
             }
             this.remoteOperationsBuffer = [];
+            this.schedulePersist();
             this.processOfflineQueue();
             this.emit('resume');
+            this.emit('pendingChanges');
         } 
     }
 
     public isLive(): boolean {
         return this.isLiveMode;
     }
-}
\ No newline at end of file
+
+    /**
+     * The remote edits buffered while paused, one entry per path, each with the value it has
+     * locally and the value the remote edits would give it. `resume()` settles a `conflict` by
+     * whichever write is later; `acceptPendingChanges`/`rejectPendingChanges` settle it by choice.
+     */
+    public getPendingChanges(): PendingChange[] {
+        const groups = this.groupBufferedOperations();
+        const remoteValues = this.simulateRemoteOperations(groups);
+        const unsent = flattenOperations(this.offlineQueue.filter((op) => !this.sent.has(op.id)));
+        return groups.map(({ path, operations }) => {
+            const localValue = cloneValue(this.get(path));
+            const remoteValue = remoteValues[JSON.stringify(path)];
+            const localOperations = unsent.filter((op) => isPrefix(op.path, path) || isPrefix(path, op.path));
+            return {
+                path,
+                localValue,
+                remoteValue,
+                operations,
+                localOperations,
+                conflict: localOperations.length > 0 && JSON.stringify(localValue) !== JSON.stringify(remoteValue),
+            };
+        });
+    }
+
+    /**
+     * Applies the buffered remote edits at `paths` (all of them if omitted) while still paused.
+     * Where a local edit would have won, the remote value is written again as a new local
+     * operation, so every replica ends up with it.
+     */
+    public acceptPendingChanges(paths?: Path[]): void {
+        this.resolvePendingChanges(paths, 'remote');
+    }
+
+    /**
+     * Discards the buffered remote edits at `paths` (all of them if omitted): the local values
+     * stay and, where the remote edits would have changed them, are written again as new local
+     * operations sent on `resume()`.
+     */
+    public rejectPendingChanges(paths?: Path[]): void {
+        this.resolvePendingChanges(paths, 'local');
+    }
+
+    private resolvePendingChanges(paths: Path[] | undefined, keep: 'local' | 'remote') {
+        const chosen = this.groupBufferedOperations()
+            .filter((group) => !paths || paths.some((path) => JSON.stringify(path) === JSON.stringify(group.path)));
+        if (chosen.length === 0) {
+            return;
+        }
+        const wanted = keep === 'remote'
+            ? this.simulateRemoteOperations(chosen)
+            : Object.fromEntries(chosen.map(({ path }) => [JSON.stringify(path), cloneValue(this.get(path))]));
+        // The remote operations are applied either way, so metadata and sequences match the other replicas.
+        const resolved = new Set(chosen.flatMap(({ operations }) => operations.map((op) => op.id)));
+        const remaining: Operation[] = [];
+        // Formatting leaves the text as it was, so rejecting it takes reverting the format itself.
+        const unformat: InverseOperation[] = [];
+        flattenOperations(this.remoteOperationsBuffer).forEach((op) => {
+            if (resolved.has(op.id)) {
+                if (keep === 'local' && op.op === 'text_format') {
+                    unformat.unshift(this.captureInverse(op));
+                }
+                this.applyOperation(op, true);
+            } else {
+                remaining.push(op);
+            }
+        });
+        this.remoteOperationsBuffer = remaining;
+        this.transact(() => {
+            chosen.forEach(({ path }) => this.writeValue(path, wanted[JSON.stringify(path)]));
+            unformat.forEach((inverse) => this.applyInverse(inverse));
+        });
+        this.schedulePersist();
+        this.emit('pendingChanges');
+    }
+
+    /** The buffered remote operations by path, transactions split up, in the order they arrived. */
+    private groupBufferedOperations(): { path: Path; operations: Operation[] }[] {
+        const groups = new Map<string, { path: Path; operations: Operation[] }>();
+        flattenOperations(this.remoteOperationsBuffer).forEach((op) => {
+            const pathKey = JSON.stringify(op.path);
+            if (!groups.has(pathKey)) {
+                groups.set(pathKey, { path: op.path, operations: [] });
+            }
+            groups.get(pathKey)!.operations.push(op);
+        });
+        return [...groups.values()];
+    }
+
+    /**
+     * The values at the groups' paths after applying their operations on a copy of the local
+     * state, with the local writes they conflict with forgotten so the remote ones always win.
+     */
+    private simulateRemoteOperations(groups: { path: Path; operations: Operation[] }[]): { [pathKey: string]: any } {
+        const saved = {
+            doc: this.doc,
+            metadata: this.metadata,
+            texts: this.texts,
+            lists: this.lists,
+            staleImmutablePaths: this.staleImmutablePaths,
+            pendingChanges: this.pendingChanges,
+        };
+        // Merges keep the metadata they check their base against.
+        const writes = groups.filter(({ operations }) => operations.some((op) => op.op === 'set' || op.op === 'del'));
+        const related = (other: Path) => writes.some(({ path }) => isPrefix(path, other) || isPrefix(other, path));
+        this.doc = cloneValue(this.doc);
+        this.metadata = Object.fromEntries(Object.entries(cloneValue(this.metadata) as { [path: string]: PathMetadata })
+            .filter(([pathKey]) => !related(JSON.parse(pathKey))));
+        this.texts = cloneValue(this.texts);
+        this.lists = cloneValue(this.lists);
+        this.staleImmutablePaths = [...this.staleImmutablePaths];
+        // Collects the change events instead of emitting them.
+        this.pendingChanges = [];
+        try {
+            const ids = new Set(groups.flatMap(({ operations }) => operations.map((op) => op.id)));
+            flattenOperations(this.remoteOperationsBuffer)
+                .filter((op) => ids.has(op.id))
+                .forEach((op) => this.applyOperation(op, true));
+            return Object.fromEntries(groups.map(({ path }) => [JSON.stringify(path), cloneValue(this.get(path))]));
+        } finally {
+            this.doc = saved.doc;
+            this.metadata = saved.metadata;
+            this.texts = saved.texts;
+            this.lists = saved.lists;
+            this.staleImmutablePaths = saved.staleImmutablePaths;
+            this.pendingChanges = saved.pendingChanges;
+        }
+    }
+
+    /** Makes the value at `path` equal to `value` with as small a local edit as its type allows. */
+    private writeValue(path: Path, value: any) {
+        const current = this.get(path);
+        if (JSON.stringify(current) === JSON.stringify(value)) {
+            return;
+        }
+        const pathKey = JSON.stringify(path);
+        if (value === undefined) {
+            this.delete(path);
+        } else if (this.texts[pathKey] && typeof current === 'string' && typeof value === 'string') {
+            const { start, removed, inserted } = changedRange(current.split(''), value.split(''));
+            this.deleteText(path, start, removed);
+            this.insertText(path, start, inserted.join(''));
+        } else if (this.lists[pathKey] && Array.isArray(current) && Array.isArray(value)) {
+            const { start, removed, inserted } = changedRange(current, value);
+            this.removeListItems(path, start, removed);
+            this.insertListItems(path, start, inserted);
+        } else {
+            // A plain write even where the path merges, so the chosen value replaces the other side's.
+            this.commitLocalOperation(this.createOperation(path, 'set', value));
+        }
+    }
+
+    /** The room's history, newest first: at most `limit` versions, starting below `before` if given. */
+    public async listVersions(options: { limit?: number; before?: number } = {}): Promise<VersionInfo[]> {
+        const query = new URLSearchParams();
+        if (options.limit !== undefined) {
+            query.set('limit', String(options.limit));
+        }
+        if (options.before !== undefined) {
+            query.set('before', String(options.before));
+        }
+        const search = query.toString();
+        const { versions } = await this.requestApi('GET', `versions${search ? `?${search}` : ''}`);
+        return versions;
+    }
+
+    /** The document as it was at version `seq` (0 is the empty document). Nothing is changed. */
+    public async getVersion(seq: number): Promise<{ seq: number; state: T }> {
+        return this.requestApi('GET', `versions/${seq}`);
+    }
+
+    public async listSnapshots(): Promise<NamedSnapshot[]> {
+        const { snapshots } = await this.requestApi('GET', 'snapshots');
+        return snapshots;
+    }
+
+    /** Names a version of the room, the current one unless `seq` is given, so it can be found and restored later. */
+    public async createSnapshot(name: string, seq?: number): Promise<NamedSnapshot> {
+        const { snapshot } = await this.requestApi('POST', 'snapshots', { name, seq });
+        return snapshot;
+    }
+
+    /**
+     * Brings the document back to version `seq`. The server makes this a new operation, so
+     * history is kept and every client, this one included, receives it like any other edit.
+     */
+    public async restoreVersion(seq: number): Promise<RestoreResult> {
+        return this.requestApi('POST', 'restore', { seq });
+    }
+
+    /** Like `restoreVersion`, for the version saved in a named snapshot. */
+    public async restoreSnapshot(snapshotId: string): Promise<RestoreResult> {
+        return this.requestApi('POST', 'restore', { snapshotId });
+    }
+
+    private async requestApi(method: 'GET' | 'POST', resource: string, body?: unknown): Promise<any> {
+        return requestRoomApi(this.connection.serverUrl, this.roomId, await this.connection.resolveToken(), method, resource, body);
+    }
+}
+
+/** A deep copy of a JSON value; `undefined` stays `undefined`. */
+function cloneValue<V>(value: V): V {
+    return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/** The operations in `ops`, with every transaction replaced by the operations it is made of. */
+function flattenOperations(ops: Operation[]): Operation[] {
+    return ops.flatMap((op) => (op.op === 'transaction' ? flattenOperations(op.value as Operation[]) : [op]));
+}
+
+/** What turns `from` into `to` at a single place: `removed` elements at `start` replaced by `inserted`. */
+function changedRange<V>(from: V[], to: V[]): { start: number; removed: number; inserted: V[] } {
+    const same = (a: V, b: V) => JSON.stringify(a) === JSON.stringify(b);
+    let start = 0;
+    while (start < from.length && start < to.length && same(from[start], to[start])) {
+        start++;
+    }
+    let end = 0;
+    while (end < from.length - start && end < to.length - start && same(from[from.length - 1 - end], to[to.length - 1 - end])) {
+        end++;
+    }
+    return { start, removed: from.length - start - end, inserted: to.slice(start, to.length - end) };
+}
+
+/** True when `prefix` is `path` itself or one of its ancestors. */
+function isPrefix(prefix: Path, path: Path): boolean {
+    return prefix.length <= path.length && prefix.every((segment, i) => path[i] === segment);
+}
+
+/** False when walking `path` would reach an object's prototype (see `FORBIDDEN_SEGMENTS`). */
+function isSafePath(path: Path): boolean {
+    return !path.some((segment) => FORBIDDEN_SEGMENTS.includes(segment as string));
+}
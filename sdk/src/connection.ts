@@ -0,0 +1,354 @@
+// sdk/src/connection.ts
+
+import { io, Socket } from 'socket.io-client';
+import { BrowserEventEmitter } from './events';
+import { LOCAL_PROTOCOL, negotiateProtocol } from './protocol';
+import type { NegotiatedProtocol, ProtocolHello } from './protocol';
+
+export interface CollabConnectionConfig {
+    serverUrl: string;
+    /**
+     * Credential sent in the Socket.IO handshake for the server to verify. A function is
+     * called again on every (re)connect, so it can return a freshly issued token.
+     */
+    token?: string | (() => string | Promise<string>);
+    /** How to retry after the connection is lost or cannot be made; `false` does not retry. */
+    reconnect?: ReconnectOptions | false;
+}
+
+export interface ReconnectOptions {
+    /** Delay before the first retry (default 500ms). */
+    initialDelayMs?: number;
+    /** Longest delay between retries (default 30s). */
+    maxDelayMs?: number;
+    /** Factor the delay grows by after every failed attempt (default 2). */
+    multiplier?: number;
+    /**
+     * Share of each delay that is random (default 0.5), so clients that lost the connection
+     * together do not all come back at the same moment.
+     */
+    jitter?: number;
+    /** Attempts in a row before giving up with `reconnect_failed` (default unlimited). */
+    maxAttempts?: number;
+}
+
+/** A retry that has been scheduled: the attempt number (from 1) and how long until it is made. */
+export interface ReconnectAttempt {
+    attempt: number;
+    delayMs: number;
+}
+
+/** The delay before retry number `attempt`, with exponential backoff and jitter. */
+export function reconnectDelay(attempt: number, options: ReconnectOptions = {}): number {
+    const { initialDelayMs = 500, maxDelayMs = 30000, multiplier = 2, jitter = 0.5 } = options;
+    const delay = Math.min(maxDelayMs, initialDelayMs * multiplier ** (attempt - 1));
+    return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+/** Events that answer a `join_room`. */
+const JOIN_REPLIES = ['initial_state', 'catch_up', 'error'];
+
+/**
+ * One socket to the server, shared by any number of documents in different rooms. Each
+ * document talks to its room through a `RoomChannel`; the socket connects when the first
+ * channel does and disconnects when the last one leaves.
+ *
+ * Servers with the `multiple_rooms` feature name the room in every event, so joins go out
+ * at once. Older servers send `initial_state` without it, so there joins are sent one at a
+ * time and each reply belongs to the join that is waiting.
+ *
+ * When the connection is lost, or cannot be made, it is retried with exponential backoff
+ * (see `ReconnectOptions`); channels are told about every retry with a `reconnecting` event
+ * and about giving up with `reconnect_failed`. Connections the server refuses, e.g. for an
+ * invalid token, and ones closed on purpose by either side are not retried.
+ */
+export class CollabConnection {
+    public readonly serverUrl: string;
+    private token?: string | (() => string | Promise<string>);
+    private reconnect: ReconnectOptions | false;
+    /** Failed attempts since the connection was last up. */
+    private attempt: number;
+    private retryTimer: ReturnType<typeof setTimeout> | null;
+    private socket: Socket;
+    /** Protocol version and features agreed with the server for the current connection. */
+    private protocol: NegotiatedProtocol | null;
+    private channels: Map<string, RoomChannel>;
+    /** Rooms whose `join_room` was sent and not answered yet, oldest first. */
+    private joining: string[];
+    /** Joins held back until the one in `joining` is answered. */
+    private heldJoins: { roomId: string; args: any[] }[];
+
+    constructor({ serverUrl, token, reconnect = {} }: CollabConnectionConfig) {
+        this.serverUrl = serverUrl;
+        this.token = token;
+        this.reconnect = reconnect;
+        this.attempt = 0;
+        this.retryTimer = null;
+        this.protocol = null;
+        this.channels = new Map();
+        this.joining = [];
+        this.heldJoins = [];
+        this.socket = io(this.serverUrl, {
+            autoConnect: false,
+            // Retries are ours (see `scheduleReconnect`), so their progress can be reported.
+            reconnection: false,
+            transports: ["websocket"],
+            auth: (cb) => {
+                // Servers from before the handshake ignore `protocol` and speak version 1.
+                this.resolveToken().then(
+                    (resolved) => cb(resolved ? { token: resolved, protocol: LOCAL_PROTOCOL } : { protocol: LOCAL_PROTOCOL }),
+                    (err) => {
+                        this.dispatchAll('error', err);
+                        cb({ protocol: LOCAL_PROTOCOL });
+                    }
+                );
+            },
+        });
+
+        this.socket.on('connect', () => {
+            this.attempt = 0;
+            // Until the server's `handshake` says otherwise.
+            this.protocol = negotiateProtocol(LOCAL_PROTOCOL, undefined);
+            this.dispatchAll('connect');
+        });
+
+        this.socket.on('disconnect', (reason: string) => {
+            this.protocol = null;
+            this.joining = [];
+            this.heldJoins = [];
+            // Scheduled first, so channels can already tell a drop from a deliberate disconnect.
+            const retry = reason === 'io client disconnect' || reason === 'io server disconnect' ? null : this.scheduleReconnect();
+            this.dispatchAll('disconnect', reason);
+            if (retry) {
+                this.dispatchAll('reconnecting', retry);
+            }
+        });
+
+        // Refusals from the server's middleware carry a code and are not retried; network failures are.
+        this.socket.on('connect_error', (err: Error & { data?: { code?: string } }) => {
+            const retry = err.data?.code ? null : this.scheduleReconnect();
+            this.dispatchAll('connect_error', err);
+            if (retry) {
+                this.dispatchAll('reconnecting', retry);
+            }
+        });
+
+        this.socket.onAny((event: string, ...args: any[]) => this.route(event, args));
+    }
+
+    public async resolveToken(): Promise<string | undefined> {
+        return typeof this.token === 'function' ? await this.token() : this.token;
+    }
+
+    /** Protocol version and optional features in use with the server, or `null` while disconnected. */
+    public getProtocol(): NegotiatedProtocol | null {
+        return this.protocol ? { version: this.protocol.version, features: [...this.protocol.features] } : null;
+    }
+
+    public isConnected(): boolean {
+        return this.socket.connected;
+    }
+
+    /** True while waiting to retry a lost or failed connection. */
+    public isReconnecting(): boolean {
+        return this.retryTimer !== null;
+    }
+
+    /** A channel to `roomId` over this connection; it takes part once its `connect` is called. */
+    public channel(roomId: string): RoomChannel {
+        return new RoomChannel(this, roomId);
+    }
+
+    /** Called by `RoomChannel.connect`. */
+    public attach(channel: RoomChannel): void {
+        const current = this.channels.get(channel.roomId);
+        if (current === channel) {
+            return;
+        }
+        if (current) {
+            // The server keeps one membership per socket and room, so a second document could not tell its replies apart.
+            channel.emit('error', { code: 'room_in_use', message: `Room ${channel.roomId} is already open on this connection`, roomId: channel.roomId });
+            return;
+        }
+        this.channels.set(channel.roomId, channel);
+        if (this.socket.connected) {
+            channel.emit('connect');
+        } else if (!this.socket.active && this.retryTimer === null) {
+            this.socket.connect();
+        }
+    }
+
+    /** Called by `RoomChannel.disconnect`. */
+    public detach(channel: RoomChannel): void {
+        if (this.channels.get(channel.roomId) !== channel) {
+            return;
+        }
+        this.channels.delete(channel.roomId);
+        this.heldJoins = this.heldJoins.filter((join) => join.roomId !== channel.roomId);
+        if (this.socket.connected) {
+            // A join still on its way is left once it is answered, or the server would add us after the leave.
+            if (!this.joining.includes(channel.roomId)) {
+                this.socket.emit('leave_room', channel.roomId);
+            }
+            channel.emit('disconnect', 'io client disconnect');
+        }
+        if (this.channels.size === 0) {
+            this.stopReconnecting();
+            this.socket.disconnect();
+        }
+    }
+
+    /**
+     * Leaves every room and closes the socket, as if each document on it had disconnected.
+     * A document connecting again reopens it.
+     */
+    public close(): void {
+        [...this.channels.values()].forEach((channel) => this.detach(channel));
+        this.stopReconnecting();
+        this.socket.disconnect();
+    }
+
+    /** Called by `RoomChannel.send`. */
+    public send(channel: RoomChannel, event: string, args: any[]): void {
+        if (this.channels.get(channel.roomId) !== channel) {
+            return;
+        }
+        if (event !== 'join_room') {
+            this.socket.emit(event, ...args);
+        } else if (this.joining.length === 0 || this.protocol?.features.includes('multiple_rooms')) {
+            this.joining.push(channel.roomId);
+            this.socket.emit(event, ...args);
+        } else {
+            this.heldJoins.push({ roomId: channel.roomId, args });
+        }
+    }
+
+    /** Retries the connection after the next backoff delay; `null` when it is not retried. */
+    private scheduleReconnect(): ReconnectAttempt | null {
+        if (!this.reconnect || this.channels.size === 0) {
+            return null;
+        }
+        if (this.attempt >= (this.reconnect.maxAttempts ?? Infinity)) {
+            console.warn(`[CollabConnection] Giving up on ${this.serverUrl} after ${this.attempt} attempts`);
+            this.dispatchAll('reconnect_failed', this.attempt);
+            this.attempt = 0;
+            return null;
+        }
+        this.attempt++;
+        const retry = { attempt: this.attempt, delayMs: reconnectDelay(this.attempt, this.reconnect) };
+        if (this.retryTimer !== null) {
+            clearTimeout(this.retryTimer);
+        }
+        this.retryTimer = setTimeout(() => {
+            this.retryTimer = null;
+            if (this.channels.size > 0) {
+                this.socket.connect();
+            }
+        }, retry.delayMs);
+        return retry;
+    }
+
+    private stopReconnecting(): void {
+        if (this.retryTimer !== null) {
+            clearTimeout(this.retryTimer);
+            this.retryTimer = null;
+        }
+        this.attempt = 0;
+    }
+
+    private route(event: string, args: any[]): void {
+        if (event === 'handshake') {
+            this.handleHandshake(args[0]);
+            return;
+        }
+        const roomId = this.roomOf(event, args);
+        const channel = roomId !== undefined ? this.channels.get(roomId) : undefined;
+        if (channel) {
+            channel.emit(event, ...args);
+        } else if (event === 'error' && roomId === undefined) {
+            this.dispatchAll(event, ...args);
+        }
+        // Errors about an operation are not about the join.
+        const answersJoin = JOIN_REPLIES.includes(event) && !(event === 'error' && args[0]?.operationId !== undefined);
+        if (answersJoin && roomId !== undefined && this.joining.includes(roomId)) {
+            this.joined(roomId);
+        }
+    }
+
+    /** The room an event belongs to, from its arguments or, for old servers, the join it answers. */
+    private roomOf(event: string, args: any[]): string | undefined {
+        switch (event) {
+            case 'initial_state':
+                return typeof args[6] === 'string' ? args[6] : this.joining[0];
+            case 'error': {
+                const err = args[0];
+                if (typeof err?.roomId === 'string') {
+                    return err.roomId;
+                }
+                // Old servers leave the room out; an error while a join waits is most likely its answer.
+                return err?.operationId === undefined && this.joining.length === 1 ? this.joining[0] : undefined;
+            }
+            default:
+                return typeof args[0] === 'string' ? args[0] : undefined;
+        }
+    }
+
+    private joined(roomId: string): void {
+        this.joining = this.joining.filter((id) => id !== roomId);
+        if (!this.channels.has(roomId)) {
+            this.socket.emit('leave_room', roomId);
+        }
+        while (this.heldJoins.length > 0 && (this.joining.length === 0 || this.protocol?.features.includes('multiple_rooms'))) {
+            const { roomId: next, args } = this.heldJoins.shift()!;
+            this.joining.push(next);
+            this.socket.emit('join_room', ...args);
+        }
+    }
+
+    // The server's side of the protocol, sent before anything else on the connection.
+    private handleHandshake(hello: ProtocolHello): void {
+        this.protocol = negotiateProtocol(LOCAL_PROTOCOL, hello);
+        if (!this.protocol) {
+            const message = `Server protocol version ${hello?.version} is not supported (this client speaks ${LOCAL_PROTOCOL.minVersion}-${LOCAL_PROTOCOL.version})`;
+            console.warn(`[CollabConnection] ${message}`);
+            this.dispatchAll('error', { code: 'protocol_unsupported', message });
+            this.socket.disconnect();
+            return;
+        }
+        // Joins held back for an old server can all go out now.
+        if (this.protocol.features.includes('multiple_rooms')) {
+            const held = this.heldJoins;
+            this.heldJoins = [];
+            held.forEach(({ roomId, args }) => {
+                this.joining.push(roomId);
+                this.socket.emit('join_room', ...args);
+            });
+        }
+    }
+
+    private dispatchAll(event: string, ...args: any[]): void {
+        [...this.channels.values()].forEach((channel) => channel.emit(event, ...args));
+    }
+}
+
+/**
+ * One room's share of a `CollabConnection`: emits the socket events that belong to the room
+ * (plus `connect`, `disconnect` and `connect_error`) and sends events on the shared socket.
+ */
+export class RoomChannel extends BrowserEventEmitter<Record<string, any[]>> {
+    constructor(private connection: CollabConnection, public readonly roomId: string) {
+        super();
+    }
+
+    public connect(): void {
+        this.connection.attach(this);
+    }
+
+    public disconnect(): void {
+        this.connection.detach(this);
+    }
+
+    public send(event: string, ...args: any[]): void {
+        this.connection.send(this, event, args);
+    }
+}
@@ -0,0 +1,35 @@
+// sdk/src/events.ts
+
+export class BrowserEventEmitter<Events extends Record<string, any[]>> {
+    private listeners: { [K in keyof Events]?: ((...args: Events[K]) => void)[] } = {};
+
+    on<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): void {
+        if (!this.listeners[event]) {
+            this.listeners[event] = [];
+        }
+        (this.listeners[event] as ((...args: Events[K]) => void)[]).push(listener);
+    }
+
+    off<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): void {
+        if (!this.listeners[event]) {
+            return;
+        }
+        this.listeners[event] = (this.listeners[event] as ((...args: Events[K]) => void)[]).filter(
+            (l) => l !== listener
+        ) as ((...args: Events[K]) => void)[];
+    }
+
+    emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+        if (!this.listeners[event]) {
+            return;
+        }
+        const currentListeners = [...(this.listeners[event] as ((...args: Events[K]) => void)[])];
+        currentListeners.forEach((listener) => {
+            try {
+                listener(...args); 
+            } catch (e) {
+                console.error(`Error in event listener for ${String(event)}:`, e);
+            }
+        });
+    }
+}
@@ -0,0 +1,42 @@
+// sdk/src/file-persistence.ts
+
+import fs from 'fs';
+import path from 'path';
+import type { PersistedDocument, PersistenceAdapter } from './persistence';
+
+/**
+ * Stores each room as `<room>.json` in `directory`, for CollabDoc clients running in Node.
+ * Writes go to a temp file that is renamed into place, so a crash never leaves a torn file.
+ * Kept out of the main entry point because it depends on Node's `fs`.
+ */
+export class FilePersistenceAdapter implements PersistenceAdapter {
+    constructor(private directory: string) {
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    async load(roomId: string): Promise<PersistedDocument | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(this.filePath(roomId), 'utf8'));
+        } catch (e: any) {
+            if (e.code === 'ENOENT') {
+                return null;
+            }
+            throw e;
+        }
+    }
+
+    async save(roomId: string, data: PersistedDocument): Promise<void> {
+        const target = this.filePath(roomId);
+        const temp = `${target}.tmp`;
+        await fs.promises.writeFile(temp, JSON.stringify(data));
+        await fs.promises.rename(temp, target);
+    }
+
+    async clear(roomId: string): Promise<void> {
+        await fs.promises.rm(this.filePath(roomId), { force: true });
+    }
+
+    private filePath(roomId: string): string {
+        return path.join(this.directory, `${encodeURIComponent(roomId)}.json`);
+    }
+}
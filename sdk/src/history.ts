@@ -0,0 +1,67 @@
+// sdk/src/history.ts
+
+import type { Operation, Path } from './collab-doc';
+
+/** One entry of a room's history: the operation that produced version `seq`. */
+export interface VersionInfo {
+    seq: number;
+    /** When the server accepted the operation, in server milliseconds. */
+    receivedAt: number;
+    operationId: string;
+    actorId: string;
+    op: Operation['op'];
+    path: Path;
+    timestamp: number;
+}
+
+/** A named point in a room's history, created with `createSnapshot`. */
+export interface NamedSnapshot {
+    id: string;
+    name: string;
+    /** Version the snapshot was taken at. */
+    seq: number;
+    createdAt: number;
+    createdBy?: string;
+}
+
+/** Outcome of a restore: the version it created, or the current one with a `null` id when nothing differed. */
+export interface RestoreResult {
+    seq: number;
+    operationId: string | null;
+}
+
+/** A failed request to the server's HTTP API; `code` matches the codes of socket errors. */
+export class CollabRequestError extends Error {
+    constructor(public readonly status: number, public readonly code: string, message: string) {
+        super(message);
+        this.name = 'CollabRequestError';
+    }
+}
+
+/** Calls `/rooms/<roomId>/<resource>` on the server and resolves to the JSON it answers with. */
+export async function requestRoomApi(
+    serverUrl: string,
+    roomId: string,
+    token: string | undefined,
+    method: 'GET' | 'POST',
+    resource: string,
+    body?: unknown
+): Promise<any> {
+    const headers: Record<string, string> = {};
+    if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+    }
+    if (body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+    }
+    const response = await fetch(`${serverUrl.replace(/\/+$/, '')}/rooms/${encodeURIComponent(roomId)}/${resource}`, {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new CollabRequestError(response.status, result.code ?? 'request_failed', result.message ?? `Request failed with status ${response.status}`);
+    }
+    return result;
+}
@@ -0,0 +1,81 @@
+// sdk/src/immutable.ts
+
+/**
+ * Frozen copies of the document that share structure between versions: parts that did not
+ * change keep their identity, so consumers can tell what changed with `===` instead of
+ * comparing (or cloning) the whole document.
+ */
+
+type Path = (string | number)[];
+
+/**
+ * Brings the frozen copy `previous` up to date with the live value `current` after a change
+ * at `path`. Only containers along `path` and inside the changed subtree are compared; their
+ * siblings are assumed unchanged and reused. Anything that turns out equal keeps the identity
+ * it had in `previous`.
+ */
+export function updateImmutable(previous: any, current: any, path: Path, depth: number = 0): any {
+    if (current === null || typeof current !== 'object') {
+        return current;
+    }
+    const comparable = previous !== null && typeof previous === 'object' && Array.isArray(previous) === Array.isArray(current);
+    const keys = Object.keys(current);
+    const copy: any = Array.isArray(current) ? [] : {};
+    let changed = !comparable || Object.keys(previous).length !== keys.length;
+    for (const key of keys) {
+        const before = comparable && Object.prototype.hasOwnProperty.call(previous, key) ? previous[key] : undefined;
+        if (depth < path.length && key !== String(path[depth]) && before !== undefined) {
+            copy[key] = before;
+        } else {
+            const onPath = depth < path.length && key === String(path[depth]);
+            copy[key] = updateImmutable(before, current[key], path, onPath ? depth + 1 : path.length);
+        }
+        changed = changed || copy[key] !== before;
+    }
+    return changed ? Object.freeze(copy) : previous;
+}
+
+/**
+ * True when `before` and `after` differ in more than what is nested inside their entries:
+ * a different kind of value, entries added or removed, or an entry replaced by a different
+ * plain value or kind of container. Used by `observe`, which ignores deeper edits.
+ */
+export function shallowChanged(before: any, after: any): boolean {
+    if (before === after) {
+        return false;
+    }
+    if (!isContainer(before) || !isContainer(after) || Array.isArray(before) !== Array.isArray(after)) {
+        return true;
+    }
+    const keys = Object.keys(after);
+    if (Object.keys(before).length !== keys.length) {
+        return true;
+    }
+    return keys.some((key) => {
+        if (!Object.prototype.hasOwnProperty.call(before, key)) {
+            return true;
+        }
+        const entryBefore = before[key];
+        const entryAfter = after[key];
+        if (isContainer(entryBefore) && isContainer(entryAfter)) {
+            return Array.isArray(entryBefore) !== Array.isArray(entryAfter);
+        }
+        return entryBefore !== entryAfter;
+    });
+}
+
+/** The value at `path` inside a frozen copy, or `undefined` when there is none. */
+export function immutableValueAt(state: any, path: Path): any {
+    let current = state;
+    for (const segment of path) {
+        if (!isContainer(current) || !Object.prototype.hasOwnProperty.call(current, segment)) {
+            return undefined;
+        }
+        current = current[segment];
+    }
+    return current;
+}
+
+function isContainer(value: any): boolean {
+    return value !== null && typeof value === 'object';
+}
@@ -0,0 +1,43 @@
+// sdk/src/list.ts
+
+import type CollabDoc from './collab-doc';
+import type { Path } from './collab-doc';
+
+/**
+ * Handle to a collaborative array stored at `path`. Every element gets a unique id when it
+ * is inserted and operations target those ids rather than indices, so a remote insert or
+ * delete shifting positions can never make a remove or move hit the wrong item.
+ */
+export class CollabList<T = any> {
+    constructor(private doc: CollabDoc, public readonly path: Path) {}
+
+    public insert(index: number, ...values: T[]): void {
+        this.doc.insertListItems(this.path, index, values);
+    }
+
+    public push(...values: T[]): void {
+        this.doc.insertListItems(this.path, this.length, values);
+    }
+
+    /** Moves the element at `from` so that it ends up at index `to`. */
+    public move(from: number, to: number): void {
+        this.doc.moveListItem(this.path, from, to);
+    }
+
+    public remove(index: number, count: number = 1): void {
+        this.doc.removeListItems(this.path, index, count);
+    }
+
+    public get(index: number): T | undefined {
+        return this.toArray()[index];
+    }
+
+    public get length(): number {
+        return this.toArray().length;
+    }
+
+    public toArray(): T[] {
+        const value = this.doc.get(this.path);
+        return Array.isArray(value) ? value : [];
+    }
+}
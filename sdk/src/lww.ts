@@ -0,0 +1,133 @@
+// sdk/src/lww.ts
+
+/**
+ * Last-writer-wins bookkeeping for `set`/`del` across nested paths.
+ *
+ * A write replaces the whole subtree at its path, so it is compared not only with the last
+ * write to the same path but also with writes to its ancestors and descendants: a write is
+ * dropped when the path itself or any ancestor was written later, and descendants written
+ * later than it survive it. Deletes leave a tombstone so they keep winning over older writes
+ * that arrive afterwards, and containers a delete leaves empty are removed unless they were
+ * written themselves. Writes below a path holding a plain value (string, number, null) are
+ * hidden rather than turning it into an object. Every replica thus ends up as if all writes
+ * had been applied in clock order, whatever order they arrived in.
+ *
+ * This file is mirrored by `server/src/lww.ts`; keep the two in sync
+ * (`npm run check:mirrors` compares them).
+ */
+
+import { compareVersions } from './clock';
+import type { WriteVersion } from './clock';
+
+type Path = (string | number)[];
+
+/** Who last wrote a path and when. */
+export interface PathMetadata {
+    timestamp: number;
+    counter?: number;
+    actorId: string;
+    version: number;
+    /** Set for tombstones left by `del`. */
+    deleted?: boolean;
+    /**
+     * Value of a `set` that is hidden because a path above it holds a plain value. Kept so
+     * the write can reappear if a later write turns that path back into an object.
+     */
+    hiddenValue?: any;
+}
+
+export interface MetadataMap {
+    [path: string]: PathMetadata;
+}
+
+/** True when `write` at `path` loses to the last write of the path itself or of an ancestor. */
+export function isSuperseded(metadata: MetadataMap, path: Path, write: WriteVersion): boolean {
+    for (let length = 0; length <= path.length; length++) {
+        const existing = metadata[JSON.stringify(path.slice(0, length))];
+        if (existing && compareVersions(write, existing) <= 0) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/** The newest write to `path` or any path above it, i.e. the one that decided its current value. */
+export function latestWrite(metadata: MetadataMap, path: Path): PathMetadata | undefined {
+    let latest: PathMetadata | undefined;
+    for (let length = 0; length <= path.length; length++) {
+        const existing = metadata[JSON.stringify(path.slice(0, length))];
+        if (existing && (!latest || compareVersions(existing, latest) > 0)) {
+            latest = existing;
+        }
+    }
+    return latest;
+}
+
+/**
+ * Writes below `path` that are newer than `write`, oldest first. They must be applied again
+ * after `write` replaces the subtree, in this order; read their values before applying it
+ * with `preservedValue`.
+ */
+export function newerDescendants(metadata: MetadataMap, path: Path, write: WriteVersion): { path: Path; metadata: PathMetadata }[] {
+    return Object.keys(metadata)
+        .map((key) => ({ path: JSON.parse(key) as Path, metadata: metadata[key] }))
+        .filter((entry) => isDescendant(entry.path, path) && compareVersions(entry.metadata, write) > 0)
+        .sort((a, b) => compareVersions(a.metadata, b.metadata));
+}
+
+/** The value to re-apply for a preserved `set`, taken from the current state unless it is hidden. */
+export function preservedValue(state: any, entry: { path: Path; metadata: PathMetadata }): any {
+    if (entry.metadata.hiddenValue !== undefined) {
+        return entry.metadata.hiddenValue;
+    }
+    const value = valueAt(state, entry.path);
+    return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
+
+/** Records the winning write at `path` and forgets the descendant writes it replaced. */
+export function recordWrite(metadata: MetadataMap, path: Path, entry: PathMetadata): void {
+    for (const key of Object.keys(metadata)) {
+        const existingPath = JSON.parse(key) as Path;
+        if (isDescendant(existingPath, path) && compareVersions(metadata[key], entry) < 0) {
+            delete metadata[key];
+        }
+    }
+    metadata[JSON.stringify(path)] = entry;
+}
+
+/**
+ * Removes containers above `path` that a delete left empty, unless they were written
+ * themselves. Containers created implicitly by a deeper write thus disappear with it, the
+ * same way whether the delete arrived before or after that write.
+ */
+export function pruneEmptyAncestors(state: any, metadata: MetadataMap, path: Path): void {
+    for (let length = path.length - 1; length > 0; length--) {
+        const containerPath = path.slice(0, length);
+        const written = metadata[JSON.stringify(containerPath)];
+        if (written && !written.deleted) {
+            return;
+        }
+        const holder = valueAt(state, containerPath.slice(0, -1));
+        const key = containerPath[containerPath.length - 1];
+        const container = holder?.[key];
+        if (Array.isArray(holder) || container === null || typeof container !== 'object' || Object.keys(container).length > 0) {
+            return;
+        }
+        delete holder[key];
+    }
+}
+
+function valueAt(state: any, path: Path): any {
+    let current = state;
+    for (const segment of path) {
+        if (current === null || typeof current !== 'object' || !current.hasOwnProperty(segment)) {
+            return undefined;
+        }
+        current = current[segment];
+    }
+    return current;
+}
+
+function isDescendant(candidate: Path, ancestor: Path): boolean {
+    return candidate.length > ancestor.length && ancestor.every((segment, i) => candidate[i] === segment);
+}
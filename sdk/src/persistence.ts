@@ -0,0 +1,100 @@
+// sdk/src/persistence.ts
+
+import type { SequenceState, ListState } from './sequence';
+import type { Operation, PathMetadata } from './collab-doc';
+
+/** Everything a `CollabDoc` needs to come back after a reload exactly as it was left. */
+export interface PersistedDocument {
+    doc: Record<string, any>;
+    metadata: { [path: string]: PathMetadata };
+    texts: { [path: string]: SequenceState<string> };
+    lists: { [path: string]: ListState };
+    /** Local operations the server has not confirmed yet. */
+    offlineQueue: Operation[];
+    /** Remote operations held back while the document was paused. */
+    remoteOperationsBuffer: Operation[];
+    lastSeq: number | null;
+}
+
+/**
+ * Client-side store for documents, keyed by room id. `save` replaces whatever was stored
+ * for the room before; `load` resolves to `null` for a room that was never saved.
+ */
+export interface PersistenceAdapter {
+    load(roomId: string): Promise<PersistedDocument | null>;
+    save(roomId: string, data: PersistedDocument): Promise<void>;
+    clear(roomId: string): Promise<void>;
+}
+
+/** Keeps documents in memory; survives recreating a `CollabDoc`, not a page reload. Meant for tests. */
+export class MemoryPersistenceAdapter implements PersistenceAdapter {
+    private documents: Map<string, string> = new Map();
+
+    async load(roomId: string): Promise<PersistedDocument | null> {
+        const stored = this.documents.get(roomId);
+        return stored ? JSON.parse(stored) : null;
+    }
+
+    async save(roomId: string, data: PersistedDocument): Promise<void> {
+        this.documents.set(roomId, JSON.stringify(data));
+    }
+
+    async clear(roomId: string): Promise<void> {
+        this.documents.delete(roomId);
+    }
+}
+
+/** Stores documents in the browser's IndexedDB, one record per room in a single object store. */
+export class IndexedDBPersistenceAdapter implements PersistenceAdapter {
+    private static readonly STORE = 'documents';
+    private database: Promise<IDBDatabase> | null = null;
+
+    constructor(private databaseName: string = 'collab-doc') {}
+
+    async load(roomId: string): Promise<PersistedDocument | null> {
+        const result = await this.request('readonly', (store) => store.get(roomId));
+        return result ?? null;
+    }
+
+    async save(roomId: string, data: PersistedDocument): Promise<void> {
+        // Stored as plain JSON so documents never hold values IndexedDB cannot clone.
+        await this.request('readwrite', (store) => store.put(JSON.parse(JSON.stringify(data)), roomId));
+    }
+
+    async clear(roomId: string): Promise<void> {
+        await this.request('readwrite', (store) => store.delete(roomId));
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.database) {
+            this.database = new Promise((resolve, reject) => {
+                if (typeof indexedDB === 'undefined') {
+                    reject(new Error('IndexedDB is not available in this environment'));
+                    return;
+                }
+                const request = indexedDB.open(this.databaseName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore(IndexedDBPersistenceAdapter.STORE);
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            // Let a later call retry instead of failing forever on a transient error.
+            this.database.catch(() => {
+                this.database = null;
+            });
+        }
+        return this.database;
+    }
+
+    private async request(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest): Promise<any> {
+        const database = await this.open();
+        return new Promise((resolve, reject) => {
+            const transaction = database.transaction(IndexedDBPersistenceAdapter.STORE, mode);
+            const request = run(transaction.objectStore(IndexedDBPersistenceAdapter.STORE));
+            transaction.oncomplete = () => resolve(request.result);
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+}
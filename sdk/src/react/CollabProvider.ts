@@ -0,0 +1,41 @@
+// sdk/src/react/CollabProvider.ts
+
+import { createContext, createElement, useContext, useEffect, useMemo, useRef } from 'react';
+import type { ReactNode } from 'react';
+import { CollabConnection } from '../connection';
+import type { CollabConnectionConfig } from '../connection';
+
+const CollabConnectionContext = createContext<CollabConnection | null>(null);
+
+type CollabProviderProps = ({ connection: CollabConnection } | (CollabConnectionConfig & { connection?: undefined })) & {
+    children?: ReactNode;
+};
+
+/**
+ * Shares one connection with every `useCollabDoc` below it, so a page showing several rooms
+ * opens a single socket. Pass a `connection` made elsewhere, or a `serverUrl` (and `token`,
+ * `reconnect`) for the provider to make one; it is replaced only when `serverUrl` changes,
+ * and closed when it is replaced or the provider unmounts. `reconnect` is read when it is made.
+ */
+export function CollabProvider(props: CollabProviderProps) {
+    const serverUrl = props.connection ? undefined : props.serverUrl;
+    // The latest token is read on every (re)connect, so an inline function does not recreate the connection.
+    const token = useRef<CollabConnectionConfig['token']>(undefined);
+    token.current = props.connection ? undefined : props.token;
+
+    const connection = useMemo(() => props.connection ?? new CollabConnection({
+        serverUrl: serverUrl!,
+        token: async () => (typeof token.current === 'function' ? await token.current() : token.current),
+        reconnect: props.connection ? undefined : props.reconnect,
+    }), [props.connection, serverUrl]);
+
+    // A connection passed in belongs to whoever made it.
+    useEffect(() => (props.connection ? undefined : () => connection.close()), [connection]);
+
+    return createElement(CollabConnectionContext.Provider, { value: connection }, props.children);
+}
+
+/** The connection of the closest `CollabProvider`, or `null` outside of one. */
+export function useCollabConnection(): CollabConnection | null {
+    return useContext(CollabConnectionContext);
+}
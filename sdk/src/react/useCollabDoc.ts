@@ -1,35 +1,61 @@
 // sdk/src/react/useCollabDoc.ts
 
 import { useState, useEffect, useMemo } from 'react'; 
-import CollabDoc, { CollabDocConfig, Path, Operation } from '../collab-doc'; 
-
-interface UseCollabDocReturn {
-    docState: Record<string, any>;
-    doc: CollabDoc | null;
+import CollabDoc from '../collab-doc';
+import type { CollabDocConfig, ConnectionState, Path, PendingChange, RejectedOperation } from '../collab-doc';
+import { useCollabConnection } from './CollabProvider';
+
+interface UseCollabDocReturn<T extends Record<string, any>> {
+    /**
+     * The whole document, frozen and structurally shared between renders. Components that
+     * only need part of it should use `useCollabValue` or `useCollabSelector` instead.
+     */
+    docState: T;
+    doc: CollabDoc<T> | null;
     isConnected: boolean;
     isSynced: boolean;
+    /** Finer-grained than `isConnected`/`isSynced`, e.g. to show that a lost connection is being retried. */
+    connectionState: ConnectionState;
     isLive: boolean; 
     pause: () => void; 
     resume: () => void; 
+    /** Remote edits buffered while paused, by path, to review before resuming. */
+    pendingChanges: PendingChange[];
+    /** Takes the pending remote edits at `paths`, or all of them. */
+    acceptChanges: (paths?: Path[]) => void;
+    /** Keeps the local values at `paths`, or everywhere, over the pending remote edits. */
+    rejectChanges: (paths?: Path[]) => void;
     error: Error | null;
+    /** The latest local edit that lost a conflict or was refused by the server, until `clearRejection`. */
+    lastRejection: RejectedOperation | null;
+    clearRejection: () => void;
 }
 
-export function useCollabDoc(options: CollabDocConfig): UseCollabDocReturn {
-    const [collabDoc, setCollabDoc] = useState<CollabDoc | null>(null);
-    const [docState, setDocState] = useState<Record<string, any>>({});
+/**
+ * Pass the document type as `T` (e.g. `useCollabDoc<MyDoc>(...)`) for typed `docState` and `doc` accessors.
+ * Inside a `CollabProvider` the document uses the provider's connection unless `options` name one.
+ */
+export function useCollabDoc<T extends Record<string, any> = Record<string, any>>(options: CollabDocConfig): UseCollabDocReturn<T> {
+    const [collabDoc, setCollabDoc] = useState<CollabDoc<T> | null>(null);
+    const [docState, setDocState] = useState<T>({} as T);
     const [isConnected, setIsConnected] = useState<boolean>(false);
     const [isSynced, setIsSynced] = useState<boolean>(false);
+    const [connectionState, setConnectionState] = useState<ConnectionState>('offline');
     const [isLive, setIsLive] = useState<boolean>(true); 
+    const [pendingChanges, setPendingChanges] = useState<PendingChange[]>([]);
     const [error, setError] = useState<Error | null>(null);
+    const [lastRejection, setLastRejection] = useState<RejectedOperation | null>(null);
+    const providedConnection = useCollabConnection();
+    const connection = options.connection ?? providedConnection ?? undefined;
 
     useEffect(() => {
-        const newDoc = new CollabDoc(options);
+        const newDoc = new CollabDoc<T>({ ...options, connection });
         setCollabDoc(newDoc);
         setError(null); 
         newDoc.connect();
 
         const changeHandler = () => {
-            setDocState(newDoc.getDocumentState());
+            setDocState(newDoc.getImmutable() as T);
         };
 
         const connectHandler = () => {
@@ -41,13 +67,26 @@ export function useCollabDoc(options: CollabDocConfig): UseCollabDocReturn {
             setIsSynced(false); 
         };
 
+        // Cached state from the persistence adapter, shown until the server sync completes.
+        const restoredHandler = () => {
+            setDocState(newDoc.getImmutable() as T);
+        };
+
         const syncedHandler = () => {
             setIsSynced(true);
-            setDocState(newDoc.getDocumentState());
+            setDocState(newDoc.getImmutable() as T);
         };
 
         const errorHandler = (err: any) => {
-            setError(err instanceof Error ? err : new Error(String(err)));
+            setError(err instanceof Error ? err : new Error(err?.message ?? String(err)));
+        };
+
+        const rejectionHandler = (rejection: RejectedOperation) => {
+            setLastRejection(rejection);
+        };
+
+        const connectionStateHandler = (state: ConnectionState) => {
+            setConnectionState(state);
         };
 
         const pauseHandler = () => {
@@ -58,41 +97,63 @@ export function useCollabDoc(options: CollabDocConfig): UseCollabDocReturn {
             setIsLive(true);
         };
 
+        const pendingChangesHandler = () => {
+            setPendingChanges(newDoc.isLive() ? [] : newDoc.getPendingChanges());
+        };
+
         newDoc.on('change', changeHandler);
         newDoc.on('connect', connectHandler);
         newDoc.on('disconnect', disconnectHandler);
+        newDoc.on('restored', restoredHandler);
         newDoc.on('synced', syncedHandler); 
         newDoc.on('error', errorHandler);
+        newDoc.on('connectionState', connectionStateHandler);
+        newDoc.on('conflict', rejectionHandler);
+        newDoc.on('rejected', rejectionHandler);
         newDoc.on('pause', pauseHandler);
         newDoc.on('resume', resumeHandler);
+        newDoc.on('pendingChanges', pendingChangesHandler);
+        // `connect` above already moved it past `offline`.
+        setConnectionState(newDoc.getConnectionState());
 
         return () => {
             console.log(`[useCollabDoc Hook] Cleaning up CollabDoc listeners for room: ${options.roomId}`);
             newDoc.off('change', changeHandler);
             newDoc.off('connect', connectHandler);
             newDoc.off('disconnect', disconnectHandler);
+            newDoc.off('restored', restoredHandler);
             newDoc.off('synced', syncedHandler);
             newDoc.off('error', errorHandler);
+            newDoc.off('connectionState', connectionStateHandler);
+            newDoc.off('conflict', rejectionHandler);
+            newDoc.off('rejected', rejectionHandler);
             newDoc.off('pause', pauseHandler);
             newDoc.off('resume', resumeHandler);
+            newDoc.off('pendingChanges', pendingChangesHandler);
 
             newDoc.disconnect();
             setCollabDoc(null); 
             setIsConnected(false); 
             setIsSynced(false);
+            setConnectionState('offline');
+            setLastRejection(null);
             setIsLive(true); 
+            setPendingChanges([]);
         };
-    }, [options.roomId, options.actorId, options.serverUrl]);
+    }, [options.roomId, options.actorId, options.serverUrl, connection]);
 
     useEffect(() => {
         if (collabDoc && !isSynced) { 
-            setDocState(collabDoc.getDocumentState());
+            setDocState(collabDoc.getImmutable() as T);
         }
     }, [collabDoc, isSynced]);
 
     const api = useMemo(() => ({
         pause: () => collabDoc?.pause(),
         resume: () => collabDoc?.resume(),
+        acceptChanges: (paths?: Path[]) => collabDoc?.acceptPendingChanges(paths),
+        rejectChanges: (paths?: Path[]) => collabDoc?.rejectPendingChanges(paths),
+        clearRejection: () => setLastRejection(null),
     }), [collabDoc]);
 
     return {
@@ -100,9 +161,15 @@ export function useCollabDoc(options: CollabDocConfig): UseCollabDocReturn {
         doc: collabDoc,
         isConnected,
         isSynced,
+        connectionState,
         isLive,
         pause: api.pause,
         resume: api.resume,
+        pendingChanges,
+        acceptChanges: api.acceptChanges,
+        rejectChanges: api.rejectChanges,
         error,
+        lastRejection,
+        clearRejection: api.clearRejection,
     };
 }
\ No newline at end of file
@@ -0,0 +1,41 @@
+// sdk/src/react/useCollabRichText.ts
+
+import { useCallback, useMemo, useRef, useSyncExternalStore } from 'react';
+import type CollabDoc from '../collab-doc';
+import type { Path } from '../collab-doc';
+import { CollabRichText } from '../rich-text';
+import type { Delta } from '../rich-text';
+
+interface UseCollabRichTextReturn {
+    richText: CollabRichText | null;
+    /** The text and its formatting; a new object only when either changed. */
+    delta: Delta;
+}
+
+const EMPTY_DELTA: Delta = { ops: [] };
+
+export function useCollabRichText(doc: CollabDoc | null, path: Path): UseCollabRichTextReturn {
+    // Callers usually pass a fresh array literal; key on its contents instead.
+    const pathKey = JSON.stringify(path);
+    const richText = useMemo(() => (doc ? doc.getRichText(JSON.parse(pathKey)) : null), [doc, pathKey]);
+    // `toDelta` builds a new object every call; keep the last one while it is equal.
+    const cached = useRef<{ key: string; delta: Delta }>({ key: '', delta: EMPTY_DELTA });
+
+    const subscribe = useCallback((onChange: () => void) => {
+        return richText ? richText.observe(onChange) : () => {};
+    }, [richText]);
+
+    const getDelta = useCallback(() => {
+        if (!richText) {
+            return EMPTY_DELTA;
+        }
+        const delta = richText.toDelta();
+        const key = JSON.stringify(delta);
+        if (key !== cached.current.key) {
+            cached.current = { key, delta };
+        }
+        return cached.current.delta;
+    }, [richText]);
+
+    return { richText, delta: useSyncExternalStore(subscribe, getDelta) };
+}
@@ -0,0 +1,49 @@
+// sdk/src/react/useCollabSelector.ts
+
+import { useCallback, useRef, useSyncExternalStore } from 'react';
+import type CollabDoc from '../collab-doc';
+
+/**
+ * Derives a value from the document with `selector` and re-renders only when that value
+ * changes according to `isEqual` (`Object.is` by default). The selector receives the frozen,
+ * structurally shared document (see `CollabDoc.getImmutable`), so selecting a part of it keeps
+ * its identity until that part is edited. Selectors that build new objects or arrays should
+ * pass an `isEqual` that compares them by content.
+ */
+export function useCollabSelector<T extends Record<string, any>, S>(
+    doc: CollabDoc<T> | null,
+    selector: (state: T) => S,
+    isEqual: (a: S, b: S) => boolean = Object.is
+): S | undefined {
+    // The latest selector is used without resubscribing, so inline selectors are fine.
+    const selectorRef = useRef(selector);
+    const isEqualRef = useRef(isEqual);
+    selectorRef.current = selector;
+    isEqualRef.current = isEqual;
+    const cache = useRef<{ doc: CollabDoc<T>; state: T; selector: (state: T) => S; selection: S } | null>(null);
+
+    const subscribe = useCallback((onChange: () => void) => {
+        if (!doc) {
+            return () => {};
+        }
+        return doc.observeDeep([], onChange);
+    }, [doc]);
+
+    const getSelection = useCallback((): S | undefined => {
+        if (!doc) {
+            return undefined;
+        }
+        const state = doc.getImmutable() as T;
+        const cached = cache.current;
+        if (cached && cached.doc === doc && cached.state === state && cached.selector === selectorRef.current) {
+            return cached.selection;
+        }
+        const selection = selectorRef.current(state);
+        // Keep the previous selection when it is equal, so React sees no change and skips the render.
+        const kept = cached && cached.doc === doc && isEqualRef.current(cached.selection, selection) ? cached.selection : selection;
+        cache.current = { doc, state, selector: selectorRef.current, selection: kept };
+        return kept;
+    }, [doc]);
+
+    return useSyncExternalStore(subscribe, getSelection);
+}
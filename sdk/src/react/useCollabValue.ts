@@ -0,0 +1,28 @@
+// sdk/src/react/useCollabValue.ts
+
+import { useCallback, useSyncExternalStore } from 'react';
+import type CollabDoc from '../collab-doc';
+import type { Path, PathValue } from '../collab-doc';
+
+/**
+ * The value at `path`, re-rendering only when it changes. The value is the document's frozen,
+ * structurally shared copy (see `CollabDoc.getImmutable`), so edits elsewhere in the document
+ * leave it, and this component, untouched. Must not be mutated.
+ */
+export function useCollabValue<T extends Record<string, any>, P extends Path>(doc: CollabDoc<T> | null, path: [...P]): PathValue<T, P> | undefined {
+    // Callers usually pass a fresh array literal; key on its contents instead.
+    const pathKey = JSON.stringify(path);
+
+    const subscribe = useCallback((onChange: () => void) => {
+        if (!doc) {
+            return () => {};
+        }
+        return doc.observeDeep(JSON.parse(pathKey), onChange);
+    }, [doc, pathKey]);
+
+    const getValue = useCallback(() => {
+        return doc ? doc.getImmutable(JSON.parse(pathKey) as [...P]) : undefined;
+    }, [doc, pathKey]);
+
+    return useSyncExternalStore(subscribe, getValue);
+}
@@ -0,0 +1,46 @@
+// sdk/src/react/usePresence.ts
+
+import { useState, useEffect, useCallback } from 'react';
+import type CollabDoc from '../collab-doc';
+
+interface UsePresenceReturn {
+    /** Everyone's presence in the room keyed by actor id, including our own. */
+    states: { [actorId: string]: Record<string, any> };
+    localState: Record<string, any> | null;
+    setLocalState: (state: Record<string, any> | null) => void;
+}
+
+export function usePresence(doc: CollabDoc | null): UsePresenceReturn {
+    const [states, setStates] = useState<{ [actorId: string]: Record<string, any> }>({});
+    const [localState, setLocalStateValue] = useState<Record<string, any> | null>(null);
+
+    useEffect(() => {
+        if (!doc) {
+            setStates({});
+            setLocalStateValue(null);
+            return;
+        }
+
+        const awarenessHandler = () => {
+            setStates(doc.getStates());
+            setLocalStateValue(doc.getLocalState());
+        };
+
+        awarenessHandler();
+        doc.on('awareness', awarenessHandler);
+
+        return () => {
+            doc.off('awareness', awarenessHandler);
+        };
+    }, [doc]);
+
+    const setLocalState = useCallback((state: Record<string, any> | null) => {
+        doc?.setLocalState(state);
+    }, [doc]);
+
+    return {
+        states,
+        localState,
+        setLocalState,
+    };
+}
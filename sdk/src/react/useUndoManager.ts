@@ -0,0 +1,55 @@
+// sdk/src/react/useUndoManager.ts
+
+import { useState, useEffect, useMemo } from 'react';
+import type CollabDoc from '../collab-doc';
+import { UndoManager } from '../undo-manager';
+import type { UndoManagerOptions } from '../undo-manager';
+
+interface UseUndoManagerReturn {
+    undoManager: UndoManager | null;
+    undo: () => void;
+    redo: () => void;
+    canUndo: boolean;
+    canRedo: boolean;
+}
+
+export function useUndoManager(doc: CollabDoc | null, options: UndoManagerOptions = {}): UseUndoManagerReturn {
+    const [undoManager, setUndoManager] = useState<UndoManager | null>(null);
+    const [canUndo, setCanUndo] = useState<boolean>(false);
+    const [canRedo, setCanRedo] = useState<boolean>(false);
+
+    useEffect(() => {
+        if (!doc) {
+            return;
+        }
+        const manager = new UndoManager(doc, options);
+        setUndoManager(manager);
+
+        const stackChangeHandler = (state: { canUndo: boolean; canRedo: boolean }) => {
+            setCanUndo(state.canUndo);
+            setCanRedo(state.canRedo);
+        };
+        manager.on('stack-change', stackChangeHandler);
+
+        return () => {
+            manager.off('stack-change', stackChangeHandler);
+            manager.destroy();
+            setUndoManager(null);
+            setCanUndo(false);
+            setCanRedo(false);
+        };
+    }, [doc, options.captureTimeout]);
+
+    const api = useMemo(() => ({
+        undo: () => { undoManager?.undo(); },
+        redo: () => { undoManager?.redo(); },
+    }), [undoManager]);
+
+    return {
+        undoManager,
+        undo: api.undo,
+        redo: api.redo,
+        canUndo,
+        canRedo,
+    };
+}
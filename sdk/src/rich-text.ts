@@ -0,0 +1,155 @@
+// sdk/src/rich-text.ts
+
+import type CollabDoc from './collab-doc';
+import type { Path } from './collab-doc';
+import type { TextAttributes } from './sequence';
+
+/** One step of a delta: text to insert, characters to keep (and format) or characters to delete. */
+export type DeltaOperation =
+    | { insert: string; attributes?: TextAttributes }
+    | { retain: number; attributes?: TextAttributes }
+    | { delete: number };
+
+/**
+ * Rich text as a list of operations, in the format of Quill's Delta: a whole document is a
+ * series of `insert`s, a change to one is a series of `retain`s, `insert`s and `delete`s
+ * walking it from the start.
+ */
+export interface Delta {
+    ops: DeltaOperation[];
+}
+
+/**
+ * Handle to collaborative rich text stored at `path`: a string whose characters carry
+ * formatting attributes such as `bold` or `link`. The string itself is the value at `path`,
+ * so plain-text readers and `CollabText` see it too; the formatting is kept with the text's
+ * sequence (see sequence.ts) and merges per attribute, so concurrent bold and italic over
+ * overlapping ranges both apply, and text typed inside a range formatted concurrently is
+ * formatted too.
+ */
+export class CollabRichText {
+    constructor(private doc: CollabDoc, public readonly path: Path) {}
+
+    /** Inserts `text` with exactly `attributes`, whatever the text around it is formatted with. */
+    public insert(index: number, text: string, attributes: TextAttributes = {}): void {
+        if (text.length === 0) {
+            return;
+        }
+        this.doc.transact(() => {
+            this.doc.insertText(this.path, index, text);
+            // Marks around the position may already cover the new text; those it should not have are removed.
+            const inherited = this.doc.getTextFormats(this.path)[index] ?? {};
+            const changes: TextAttributes = {};
+            for (const name of Object.keys(inherited)) {
+                if (attributes[name] === undefined || attributes[name] === null) {
+                    changes[name] = null;
+                }
+            }
+            for (const [name, value] of Object.entries(attributes)) {
+                if (value !== null && JSON.stringify(inherited[name]) !== JSON.stringify(value)) {
+                    changes[name] = value;
+                }
+            }
+            this.doc.formatText(this.path, index, text.length, changes);
+        });
+    }
+
+    public delete(index: number, length: number): void {
+        this.doc.deleteText(this.path, index, length);
+    }
+
+    /** Sets `attributes` on `length` characters from `index`; `null` removes an attribute. */
+    public format(index: number, length: number, attributes: TextAttributes): void {
+        this.doc.formatText(this.path, index, length, attributes);
+    }
+
+    /** The whole text as a delta of `insert`s, consecutive characters with the same attributes joined. */
+    public toDelta(): Delta {
+        const text = this.toString();
+        const formats = this.doc.getTextFormats(this.path);
+        const ops: { insert: string; attributes?: TextAttributes }[] = [];
+        let previous: string | null = null;
+        text.split('').forEach((char, i) => {
+            const format = formats[i] ?? {};
+            const key = JSON.stringify(sortedAttributes(format));
+            if (key === previous) {
+                ops[ops.length - 1].insert += char;
+            } else {
+                ops.push(Object.keys(format).length > 0 ? { insert: char, attributes: sortedAttributes(format) } : { insert: char });
+                previous = key;
+            }
+        });
+        return { ops };
+    }
+
+    /**
+     * Applies a delta, e.g. the one an editor reports for a change, as a single transaction.
+     * Only text can be inserted; embeds such as images are refused.
+     */
+    public applyDelta(delta: Delta | DeltaOperation[]): void {
+        const ops = Array.isArray(delta) ? delta : delta.ops;
+        for (const op of ops) {
+            if ('insert' in op && typeof op.insert !== 'string') {
+                throw new Error(`[CollabRichText] Only text can be inserted, got ${JSON.stringify(op.insert)}`);
+            }
+        }
+        this.doc.transact(() => {
+            let index = 0;
+            for (const op of ops) {
+                if ('insert' in op) {
+                    this.insert(index, op.insert, op.attributes);
+                    index += op.insert.length;
+                } else if ('retain' in op) {
+                    if (op.attributes) {
+                        this.format(index, op.retain, op.attributes);
+                    }
+                    index += op.retain;
+                } else {
+                    this.delete(index, op.delete);
+                }
+            }
+        });
+    }
+
+    /**
+     * Calls `callback` with the whole text as a delta whenever it or its formatting changes,
+     * locally, remotely or by a sync. Returns a function that stops observing.
+     */
+    public observe(callback: (delta: Delta) => void): () => void {
+        const affects = (change: { path: Path; changes?: { path: Path }[] }): boolean => {
+            if (change.changes) {
+                return change.changes.some(affects);
+            }
+            const shorter = Math.min(change.path.length, this.path.length);
+            return JSON.stringify(change.path.slice(0, shorter)) === JSON.stringify(this.path.slice(0, shorter));
+        };
+        const onChange = (change: { path: Path; changes?: { path: Path }[] }) => {
+            if (affects(change)) {
+                callback(this.toDelta());
+            }
+        };
+        const onReplaced = () => callback(this.toDelta());
+        this.doc.on('change', onChange);
+        this.doc.on('synced', onReplaced);
+        this.doc.on('restored', onReplaced);
+        return () => {
+            this.doc.off('change', onChange);
+            this.doc.off('synced', onReplaced);
+            this.doc.off('restored', onReplaced);
+        };
+    }
+
+    public get length(): number {
+        return this.toString().length;
+    }
+
+    public toString(): string {
+        const value = this.doc.get(this.path);
+        return typeof value === 'string' ? value : '';
+    }
+}
+
+/** `attributes` with its keys in order, so equal formatting always serializes the same. */
+function sortedAttributes(attributes: TextAttributes): TextAttributes {
+    return Object.fromEntries(Object.keys(attributes).sort().map((name) => [name, attributes[name]]));
+}
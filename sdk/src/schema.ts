@@ -0,0 +1,163 @@
+// sdk/src/schema.ts
+
+/**
+ * A small JSON Schema validator for document state, covering the keywords documents
+ * typically need: `type`, `properties`, `required`, `additionalProperties`, `items`, `enum`,
+ * `const`, `minimum`/`maximum`, `minLength`/`maxLength`, `pattern` and `minItems`/`maxItems`.
+ * Unknown keywords are ignored, so a full JSON Schema can be used as long as it only
+ * relies on these for the constraints that matter.
+ *
+ * This file is mirrored by `server/src/schema.ts`; keep the two in sync
+ * (`npm run check:mirrors` compares them).
+ */
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+
+export interface JSONSchema {
+    type?: JSONSchemaType | JSONSchemaType[];
+    properties?: { [key: string]: JSONSchema };
+    required?: string[];
+    additionalProperties?: boolean | JSONSchema;
+    items?: JSONSchema;
+    enum?: any[];
+    const?: any;
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    pattern?: string;
+    minItems?: number;
+    maxItems?: number;
+    [keyword: string]: any;
+}
+
+export interface SchemaViolation {
+    path: (string | number)[];
+    message: string;
+}
+
+/** Checks `value` against `schema` and returns every violation found, or an empty array. */
+export function validateSchema(schema: JSONSchema, value: any, path: (string | number)[] = []): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const fail = (message: string) => violations.push({ path, message });
+
+    if (schema.type !== undefined) {
+        const allowed = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!allowed.some((type) => matchesType(type, value))) {
+            fail(`expected ${allowed.join(' or ')}, got ${describeType(value)}`);
+            return violations;
+        }
+    }
+    if (schema.enum !== undefined && !schema.enum.some((option) => deepEqual(option, value))) {
+        fail(`must be one of ${JSON.stringify(schema.enum)}`);
+    }
+    if (schema.const !== undefined && !deepEqual(schema.const, value)) {
+        fail(`must equal ${JSON.stringify(schema.const)}`);
+    }
+
+    if (typeof value === 'number') {
+        if (schema.minimum !== undefined && value < schema.minimum) {
+            fail(`must be >= ${schema.minimum}`);
+        }
+        if (schema.maximum !== undefined && value > schema.maximum) {
+            fail(`must be <= ${schema.maximum}`);
+        }
+    }
+
+    if (typeof value === 'string') {
+        if (schema.minLength !== undefined && value.length < schema.minLength) {
+            fail(`must be at least ${schema.minLength} characters`);
+        }
+        if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+            fail(`must be at most ${schema.maxLength} characters`);
+        }
+        if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+            fail(`must match ${schema.pattern}`);
+        }
+    }
+
+    if (Array.isArray(value)) {
+        if (schema.minItems !== undefined && value.length < schema.minItems) {
+            fail(`must have at least ${schema.minItems} items`);
+        }
+        if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+            fail(`must have at most ${schema.maxItems} items`);
+        }
+        if (schema.items) {
+            const items = schema.items;
+            value.forEach((item, index) => violations.push(...validateSchema(items, item, [...path, index])));
+        }
+    } else if (value !== null && typeof value === 'object') {
+        for (const key of schema.required ?? []) {
+            if (value[key] === undefined) {
+                violations.push({ path: [...path, key], message: 'is required' });
+            }
+        }
+        for (const key of Object.keys(value)) {
+            const propertySchema = schema.properties?.[key];
+            if (propertySchema) {
+                violations.push(...validateSchema(propertySchema, value[key], [...path, key]));
+            } else if (schema.additionalProperties === false) {
+                violations.push({ path: [...path, key], message: 'is not allowed' });
+            } else if (typeof schema.additionalProperties === 'object') {
+                violations.push(...validateSchema(schema.additionalProperties, value[key], [...path, key]));
+            }
+        }
+    }
+    return violations;
+}
+
+/**
+ * Violations in `after` that `before` did not already have. Edits are judged by these, so a
+ * document that starts out empty can be filled in one field at a time even when the schema
+ * requires several of them.
+ */
+export function newViolations(schema: JSONSchema, before: any, after: any): SchemaViolation[] {
+    const existing = new Set(validateSchema(schema, before).map(violationKey));
+    return validateSchema(schema, after).filter((violation) => !existing.has(violationKey(violation)));
+}
+
+/** One line per violation, e.g. `user.age: must be >= 0`. */
+export function formatViolations(violations: SchemaViolation[]): string {
+    return violations
+        .map(({ path, message }) => `${path.length > 0 ? path.join('.') : '(root)'}: ${message}`)
+        .join('; ');
+}
+
+function violationKey({ path, message }: SchemaViolation): string {
+    return `${JSON.stringify(path)} ${message}`;
+}
+
+function matchesType(type: JSONSchemaType, value: any): boolean {
+    switch (type) {
+        case 'object':
+            return value !== null && typeof value === 'object' && !Array.isArray(value);
+        case 'array':
+            return Array.isArray(value);
+        case 'integer':
+            return typeof value === 'number' && Number.isInteger(value);
+        case 'null':
+            return value === null;
+        default:
+            return typeof value === type;
+    }
+}
+
+function describeType(value: any): string {
+    if (value === null) {
+        return 'null';
+    }
+    return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function deepEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Thrown by `CollabDoc` when a local edit would make the document violate its schema. */
+export class SchemaValidationError extends Error {
+    constructor(public readonly violations: SchemaViolation[]) {
+        super(`Document would violate its schema: ${formatViolations(violations)}`);
+        this.name = 'SchemaValidationError';
+    }
+}
@@ -0,0 +1,328 @@
+// sdk/src/sequence.ts
+
+/**
+ * Replicated Growable Array (RGA) backing the collaborative sequence types.
+ *
+ * Every element carries a unique `counter@actorId` id and is integrated right after the
+ * element it was inserted behind (its origin). Concurrent inserts at the same origin are
+ * ordered by id, and deletes only tombstone the elements they name, so replicas converge
+ * regardless of the order in which they receive operations.
+ *
+ * Text also carries formatting as marks: attributes applied to the characters from one id to
+ * another, inclusive. A mark covers whatever lies between its ends in sequence order, so text
+ * inserted inside a formatted range concurrently takes the formatting too. Where marks
+ * overlap, each attribute takes its value from the latest mark that sets it; marks are only
+ * ever added, so replicas agree on every character's attributes whatever order they arrive in.
+ *
+ * This file is mirrored by `server/src/sequence.ts`; keep the two in sync
+ * (`npm run check:mirrors` compares them).
+ */
+
+import { compareVersions } from './clock';
+import type { WriteVersion } from './clock';
+
+export type SequenceId = string;
+
+export interface SequenceNode<T> {
+    id: SequenceId;
+    value: T;
+    deleted: boolean;
+}
+
+export interface SequenceState<T> {
+    nodes: SequenceNode<T>[];
+    /** Formatting of a text, oldest first; absent until it is first formatted. */
+    marks?: TextMark[];
+}
+
+/** What every text and list edit carries besides its own fields. */
+export interface SequenceEdit {
+    /**
+     * The latest `set`/`del` at or above the path when the edit was made, `null` if there was
+     * none; the edit is dropped once that write is replaced (see merge.ts). Left out by older
+     * clients and by restores, whose edits only lose to later writes.
+     */
+    base?: WriteVersion | null;
+}
+
+export interface TextInsertPayload extends SequenceEdit {
+    /** Id of the character the text is inserted after, or `null` for the start. */
+    origin: SequenceId | null;
+    /** Id of the first inserted character; the following ones use consecutive counters. */
+    id: SequenceId;
+    text: string;
+}
+
+export interface TextDeletePayload extends SequenceEdit {
+    ids: SequenceId[];
+}
+
+/** Formatting attributes of text, e.g. `{ bold: true, link: 'https://…' }`; `null` removes one. */
+export interface TextAttributes {
+    [name: string]: any;
+}
+
+export interface TextFormatPayload extends SequenceEdit {
+    /** First and last character formatted, inclusive. */
+    start: SequenceId;
+    end: SequenceId;
+    attributes: TextAttributes;
+}
+
+/** A `text_format` operation as kept in the text: its range and attributes, and when it was made. */
+export interface TextMark extends Omit<TextFormatPayload, 'base'>, WriteVersion {}
+
+/**
+ * A list element keeps the id of the slot it was inserted into for its whole life. Moving
+ * it inserts a new slot and points the element's `slot` register at it; the register is
+ * last-writer-wins by slot id, so concurrent moves of the same element settle on one place.
+ */
+export interface ListElement {
+    value: any;
+    slot: SequenceId;
+    removed: boolean;
+}
+
+export interface ListState {
+    /** Positions in the list; each slot holds the id of the element it was created for. */
+    slots: SequenceState<SequenceId>;
+    elements: { [elementId: string]: ListElement };
+}
+
+export interface ListEntry {
+    id: SequenceId;
+    slot: SequenceId;
+    value: any;
+}
+
+export interface ListInsertPayload extends SequenceEdit {
+    /** Slot the values are inserted after, or `null` for the start. */
+    origin: SequenceId | null;
+    /** Id of the first inserted element; the following ones use consecutive counters. */
+    id: SequenceId;
+    values: any[];
+}
+
+export interface ListRemovePayload extends SequenceEdit {
+    ids: SequenceId[];
+}
+
+export interface ListMovePayload extends SequenceEdit {
+    elementId: SequenceId;
+    /** Slot the element is moved after, or `null` for the start. */
+    origin: SequenceId | null;
+    /** Id of the new slot created for the element. */
+    id: SequenceId;
+}
+
+/** Actor id used for elements seeded from a plain value, so every replica derives the same ids. */
+const SEED_ACTOR = '';
+
+export function makeSequenceId(counter: number, actorId: string): SequenceId {
+    return `${counter}@${actorId}`;
+}
+
+export function parseSequenceId(id: SequenceId): { counter: number; actorId: string } {
+    const separator = id.indexOf('@');
+    return {
+        counter: parseInt(id.slice(0, separator), 10),
+        actorId: id.slice(separator + 1),
+    };
+}
+
+export function compareSequenceIds(a: SequenceId, b: SequenceId): number {
+    const left = parseSequenceId(a);
+    const right = parseSequenceId(b);
+    if (left.counter !== right.counter) {
+        return left.counter - right.counter;
+    }
+    if (left.actorId === right.actorId) {
+        return 0;
+    }
+    return left.actorId < right.actorId ? -1 : 1;
+}
+
+export function createSequence<T>(values: T[] = []): SequenceState<T> {
+    return {
+        nodes: values.map((value, i) => ({ id: makeSequenceId(i + 1, SEED_ACTOR), value, deleted: false })),
+    };
+}
+
+/** Counter for the next locally generated id; greater than every id this replica has seen. */
+export function nextSequenceCounter<T>(state: SequenceState<T>): number {
+    let max = 0;
+    for (const node of state.nodes) {
+        max = Math.max(max, parseSequenceId(node.id).counter);
+    }
+    return max + 1;
+}
+
+export function visibleNodes<T>(state: SequenceState<T>): SequenceNode<T>[] {
+    return state.nodes.filter((node) => !node.deleted);
+}
+
+/** Id of the visible element an insert at `index` should follow, or `null` to insert at the start. */
+export function originForIndex<T>(state: SequenceState<T>, index: number): SequenceId | null {
+    if (index <= 0) {
+        return null;
+    }
+    const visible = visibleNodes(state);
+    if (visible.length === 0) {
+        return null;
+    }
+    return visible[Math.min(index, visible.length) - 1].id;
+}
+
+export function insertSequenceNodes<T>(
+    state: SequenceState<T>,
+    origin: SequenceId | null,
+    entries: { id: SequenceId; value: T }[]
+): void {
+    let previous = origin;
+    for (const entry of entries) {
+        if (state.nodes.some((node) => node.id === entry.id)) {
+            previous = entry.id;
+            continue;
+        }
+        // An unknown origin (e.g. the sequence was replaced by a `set`) falls back to the start.
+        let index = previous === null ? 0 : state.nodes.findIndex((node) => node.id === previous) + 1;
+        while (index < state.nodes.length && compareSequenceIds(state.nodes[index].id, entry.id) > 0) {
+            index++;
+        }
+        state.nodes.splice(index, 0, { id: entry.id, value: entry.value, deleted: false });
+        previous = entry.id;
+    }
+}
+
+export function deleteSequenceNodes<T>(state: SequenceState<T>, ids: SequenceId[]): void {
+    const toDelete = new Set(ids);
+    for (const node of state.nodes) {
+        if (toDelete.has(node.id)) {
+            node.deleted = true;
+        }
+    }
+}
+
+export function applyTextInsert(state: SequenceState<string>, payload: TextInsertPayload): void {
+    const { counter, actorId } = parseSequenceId(payload.id);
+    const entries = payload.text.split('').map((char, i) => ({
+        id: makeSequenceId(counter + i, actorId),
+        value: char,
+    }));
+    insertSequenceNodes(state, payload.origin, entries);
+}
+
+export function applyTextDelete(state: SequenceState<string>, payload: TextDeletePayload): void {
+    deleteSequenceNodes(state, payload.ids);
+}
+
+export function textFromSequence(state: SequenceState<string>): string {
+    return visibleNodes(state).map((node) => node.value).join('');
+}
+
+/** Adds a mark made at `version`, keeping marks ordered so later ones are applied last. */
+export function applyTextFormat(state: SequenceState<string>, payload: TextFormatPayload, version: WriteVersion): void {
+    const marks = state.marks ?? [];
+    const mark: TextMark = { start: payload.start, end: payload.end, attributes: payload.attributes, timestamp: version.timestamp, counter: version.counter, actorId: version.actorId };
+    if (marks.some((existing) => compareVersions(existing, mark) === 0)) {
+        return;
+    }
+    let index = marks.length;
+    while (index > 0 && compareVersions(marks[index - 1], mark) > 0) {
+        index--;
+    }
+    marks.splice(index, 0, mark);
+    state.marks = marks;
+}
+
+/** The attributes of every visible character, in text order; attributes set to `null` are left out. */
+export function formatsFromSequence(state: SequenceState<string>): TextAttributes[] {
+    const formats: TextAttributes[] = state.nodes.map(() => ({}));
+    if (state.marks && state.marks.length > 0) {
+        const positions = new Map(state.nodes.map((node, i) => [node.id, i]));
+        for (const mark of state.marks) {
+            const start = positions.get(mark.start);
+            const end = positions.get(mark.end);
+            if (start === undefined || end === undefined) {
+                continue;
+            }
+            for (let i = start; i <= end; i++) {
+                Object.assign(formats[i], mark.attributes);
+            }
+        }
+    }
+    return formats
+        .filter((_, i) => !state.nodes[i].deleted)
+        .map((format) => Object.fromEntries(Object.entries(format).filter(([, value]) => value !== null)));
+}
+
+export function createList(values: any[] = []): ListState {
+    const slots = createSequence<SequenceId>([]);
+    const elements: { [elementId: string]: ListElement } = {};
+    values.forEach((value, i) => {
+        const id = makeSequenceId(i + 1, SEED_ACTOR);
+        slots.nodes.push({ id, value: id, deleted: false });
+        elements[id] = { value, slot: id, removed: false };
+    });
+    return { slots, elements };
+}
+
+/** Live elements in list order, skipping slots an element has since been moved away from. */
+export function listEntries(state: ListState): ListEntry[] {
+    const entries: ListEntry[] = [];
+    for (const node of visibleNodes(state.slots)) {
+        const element = state.elements[node.value];
+        if (element && !element.removed && element.slot === node.id) {
+            entries.push({ id: node.value, slot: node.id, value: element.value });
+        }
+    }
+    return entries;
+}
+
+/** Slot an insert at `index` should follow, ignoring `excludeId` (the element being moved). */
+export function listOriginForIndex(state: ListState, index: number, excludeId?: SequenceId): SequenceId | null {
+    const entries = listEntries(state).filter((entry) => entry.id !== excludeId);
+    if (index <= 0 || entries.length === 0) {
+        return null;
+    }
+    return entries[Math.min(index, entries.length) - 1].slot;
+}
+
+export function applyListInsert(state: ListState, payload: ListInsertPayload): void {
+    const { counter, actorId } = parseSequenceId(payload.id);
+    const entries = payload.values.map((value, i) => ({ id: makeSequenceId(counter + i, actorId), value }));
+    insertSequenceNodes(
+        state.slots,
+        payload.origin,
+        entries.map((entry) => ({ id: entry.id, value: entry.id }))
+    );
+    for (const entry of entries) {
+        if (!state.elements[entry.id]) {
+            state.elements[entry.id] = { value: entry.value, slot: entry.id, removed: false };
+        }
+    }
+}
+
+export function applyListRemove(state: ListState, payload: ListRemovePayload): void {
+    for (const id of payload.ids) {
+        const element = state.elements[id];
+        if (element) {
+            element.removed = true;
+        }
+    }
+}
+
+export function applyListMove(state: ListState, payload: ListMovePayload): void {
+    const element = state.elements[payload.elementId];
+    if (!element) {
+        return;
+    }
+    insertSequenceNodes(state.slots, payload.origin, [{ id: payload.id, value: payload.elementId }]);
+    if (compareSequenceIds(payload.id, element.slot) > 0) {
+        element.slot = payload.id;
+    }
+}
+
+export function valuesFromList(state: ListState): any[] {
+    return listEntries(state).map((entry) => (entry.value === undefined ? null : JSON.parse(JSON.stringify(entry.value))));
+}
@@ -0,0 +1,30 @@
+// sdk/src/text.ts
+
+import type CollabDoc from './collab-doc';
+import type { Path } from './collab-doc';
+
+/**
+ * Handle to a collaborative string stored at `path`. Edits are sent as character-wise
+ * insert/delete operations, so concurrent typing in the same field interleaves instead of
+ * one whole-string `set` overwriting the other.
+ */
+export class CollabText {
+    constructor(private doc: CollabDoc, public readonly path: Path) {}
+
+    public insert(index: number, text: string): void {
+        this.doc.insertText(this.path, index, text);
+    }
+
+    public delete(index: number, length: number): void {
+        this.doc.deleteText(this.path, index, length);
+    }
+
+    public get length(): number {
+        return this.toString().length;
+    }
+
+    public toString(): string {
+        const value = this.doc.get(this.path);
+        return typeof value === 'string' ? value : '';
+    }
+}
@@ -0,0 +1,210 @@
+// sdk/src/undo-manager.ts
+
+import { BrowserEventEmitter } from './events';
+import type CollabDoc from './collab-doc';
+import type { InverseOperation, Operation } from './collab-doc';
+
+interface UndoManagerEvents {
+    'stack-change': [state: { canUndo: boolean; canRedo: boolean }];
+    [key: string]: any[];
+}
+
+export interface UndoManagerOptions {
+    /** Local operations made within this many milliseconds of each other are undone as one step. */
+    captureTimeout?: number;
+}
+
+/**
+ * Undo/redo history for the local actor. Only operations made through this `CollabDoc`
+ * are recorded, never remote ones, and each step is reverted by issuing new operations,
+ * so undo syncs to everyone like any other edit.
+ */
+export class UndoManager extends BrowserEventEmitter<UndoManagerEvents> {
+    private undoStack: InverseOperation[][] = [];
+    private redoStack: InverseOperation[][] = [];
+    private captureTimeout: number;
+    private lastCaptureAt = 0;
+    private lastTransaction: string | undefined;
+    /** How many of the inverses at the end of the last step belong to `lastTransaction`. */
+    private transactionInverses = 0;
+    /** Set while undoing/redoing, so the inverses of those operations land on the other stack. */
+    private replaying: 'undo' | 'redo' | null = null;
+    private replayItem: InverseOperation[] = [];
+    private transactionDepth = 0;
+    private startNewItem = true;
+
+    constructor(private doc: CollabDoc, { captureTimeout = 500 }: UndoManagerOptions = {}) {
+        super();
+        this.captureTimeout = captureTimeout;
+        this.doc.on('localOperation', this.handleLocalOperation);
+        this.doc.on('transactionAborted', this.handleTransactionAborted);
+    }
+
+    public undo(): boolean {
+        return this.replay(this.undoStack, 'undo');
+    }
+
+    public redo(): boolean {
+        return this.replay(this.redoStack, 'redo');
+    }
+
+    public get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    public get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /** Records every operation made inside `fn` as a single undo step. */
+    public transact(fn: () => void): void {
+        if (this.transactionDepth === 0) {
+            this.stopCapturing();
+        }
+        this.transactionDepth++;
+        try {
+            fn();
+        } finally {
+            this.transactionDepth--;
+            if (this.transactionDepth === 0) {
+                this.stopCapturing();
+            }
+        }
+    }
+
+    /** Ends the current step, so the next operation starts a new one even within `captureTimeout`. */
+    public stopCapturing(): void {
+        this.startNewItem = true;
+    }
+
+    public clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.emitStackChange();
+    }
+
+    public destroy(): void {
+        this.doc.off('localOperation', this.handleLocalOperation);
+        this.doc.off('transactionAborted', this.handleTransactionAborted);
+    }
+
+    private handleLocalOperation = ({ inverse, transaction }: { op: Operation; inverse: InverseOperation; transaction?: string }) => {
+        if (this.replaying) {
+            this.replayItem.push(inverse);
+            return;
+        }
+
+        const now = Date.now();
+        const sameTransaction = transaction !== undefined && transaction === this.lastTransaction;
+        const extendsLastItem = this.undoStack.length > 0 && (sameTransaction || (!this.startNewItem
+            && (this.transactionDepth > 0 || now - this.lastCaptureAt < this.captureTimeout)));
+        if (extendsLastItem) {
+            this.undoStack[this.undoStack.length - 1].push(inverse);
+        } else {
+            this.undoStack.push([inverse]);
+        }
+        this.lastCaptureAt = now;
+        this.transactionInverses = sameTransaction ? this.transactionInverses + 1 : 1;
+        this.lastTransaction = transaction;
+        this.startNewItem = false;
+        this.redoStack = [];
+        this.emitStackChange();
+    };
+
+    /** Forgets the inverses of a transaction the document took back, as its operations never happened. */
+    private handleTransactionAborted = (transaction: string) => {
+        if (this.replaying || transaction !== this.lastTransaction || this.undoStack.length === 0) {
+            return;
+        }
+        const item = this.undoStack[this.undoStack.length - 1];
+        item.splice(item.length - this.transactionInverses);
+        if (item.length === 0) {
+            this.undoStack.pop();
+        }
+        this.lastTransaction = undefined;
+        this.startNewItem = true;
+        this.emitStackChange();
+    };
+
+    private replay(stack: InverseOperation[][], mode: 'undo' | 'redo'): boolean {
+        const target = mode === 'undo' ? this.redoStack : this.undoStack;
+        this.replaying = mode;
+        try {
+            // Steps whose changes were all superseded by other actors are dropped, not counted.
+            while (stack.length > 0) {
+                const item = stack.pop() as InverseOperation[];
+                this.replayItem = [];
+                let applied = false;
+                // One step is reverted as one transaction, so peers never see it half undone.
+                try {
+                    this.doc.transact(() => {
+                        for (let i = item.length - 1; i >= 0; i--) {
+                            const produced = this.replayItem.length;
+                            if (this.doc.applyInverse(item[i])) {
+                                applied = true;
+                                this.remapReinsertedIds(item[i], this.replayItem[produced], item);
+                            }
+                        }
+                    });
+                } catch (e) {
+                    // The document took the step back, so it can still be undone later.
+                    stack.push(item);
+                    throw e;
+                }
+                if (applied) {
+                    target.push(this.replayItem);
+                    return true;
+                }
+            }
+            return false;
+        } finally {
+            this.replaying = null;
+            this.replayItem = [];
+            this.startNewItem = true;
+            this.emitStackChange();
+        }
+    }
+
+    /**
+     * Re-inserted text or list items get fresh ids. Point every recorded inverse that still
+     * refers to the replaced ids at the new ones, so older steps keep affecting them.
+     */
+    private remapReinsertedIds(applied: InverseOperation, produced: InverseOperation | undefined, replaying: InverseOperation[]) {
+        if ((applied.op !== 'text_insert' && applied.op !== 'list_insert') || !produced) {
+            return;
+        }
+        if (produced.op !== 'text_delete' && produced.op !== 'list_remove') {
+            return;
+        }
+        const mapping = new Map<string, string>();
+        applied.replaces.forEach((oldId, i) => {
+            if (produced.ids[i] !== undefined) {
+                mapping.set(oldId, produced.ids[i]);
+            }
+        });
+        if (mapping.size === 0) {
+            return;
+        }
+        const pathKey = JSON.stringify(applied.path);
+        for (const item of [...this.undoStack, ...this.redoStack, replaying]) {
+            for (const inverse of item) {
+                if (JSON.stringify(inverse.path) !== pathKey) {
+                    continue;
+                }
+                if (inverse.op === 'text_delete' || inverse.op === 'list_remove') {
+                    inverse.ids = inverse.ids.map((id) => mapping.get(id) ?? id);
+                } else if (inverse.op === 'list_move') {
+                    inverse.elementId = mapping.get(inverse.elementId) ?? inverse.elementId;
+                } else if (inverse.op === 'text_insert' || inverse.op === 'list_insert') {
+                    inverse.replaces = inverse.replaces.map((id) => mapping.get(id) ?? id);
+                } else if (inverse.op === 'text_format') {
+                    inverse.runs = inverse.runs.map((run) => ({ ...run, start: mapping.get(run.start) ?? run.start, end: mapping.get(run.end) ?? run.end }));
+                }
+            }
+        }
+    }
+
+    private emitStackChange() {
+        this.emit('stack-change', { canUndo: this.canUndo, canRedo: this.canRedo });
+    }
+}
@@ -0,0 +1,62 @@
+// sdk/test-cluster.ts
+import CollabDoc from './src/collab-doc';
+import { check, connectDoc, finish, log, quiet, sleep, startServer, stop } from './test-helpers';
+import { InProcessBroker } from '../server/src/cluster';
+import { MemoryStorageAdapter } from '../server/src/storage';
+
+// Starts two server nodes in this process, sharing an in-process broker and storage, connects
+// a client to each and checks they collaborate as if on one server, including after the node
+// owning the room shuts down. Run with `npx ts-node test-cluster.ts`.
+
+// --- Configuration ---
+const PORTS = [8097, 8098];
+const ROOM_ID = 'cluster-test-document';
+
+/** JSON with sorted top-level keys, since replicas may add fields in a different order. */
+function stateOf(doc: CollabDoc): string {
+    const state = doc.getDocumentState();
+    return JSON.stringify(state, Object.keys(state).sort());
+}
+
+function connectClient(actorId: string, port: number): Promise<CollabDoc> {
+    return connectDoc(`http://localhost:${port}`, ROOM_ID, actorId);
+}
+
+async function runClusterTest() {
+    log('--- Starting CollabDoc Cluster Test ---');
+    quiet();
+
+    const broker = new InProcessBroker();
+    const storage = new MemoryStorageAdapter();
+    const nodes = PORTS.map((port, index) => startServer(port, { storage, cluster: broker.connect(`node-${index + 1}`), roomOwnershipTtlMs: 1500 }));
+
+    const alpha = await connectClient('Alpha', PORTS[0]);
+    const beta = await connectClient('Beta', PORTS[1]);
+
+    alpha.set(['title'], 'Written through node 1');
+    beta.set(['count'], 1);
+    await sleep(300);
+    const expected = JSON.stringify({ count: 1, title: 'Written through node 1' });
+    check(stateOf(alpha) === expected, 'Alpha sees edits made through both nodes');
+    check(stateOf(beta) === expected, 'Beta sees edits made through both nodes');
+
+    alpha.setLocalState({ name: 'Alpha' });
+    await sleep(300);
+    check(beta.getStates()['Alpha']?.name === 'Alpha', 'Presence set on node 1 reaches a client on node 2');
+
+    // Node 1 owns the room (Alpha joined first); closing it hands the room to node 2.
+    alpha.disconnect();
+    await nodes[0].close();
+    beta.set(['count'], 2);
+    await sleep(300);
+    const gamma = await connectClient('Gamma', PORTS[1]);
+    const handedOver = JSON.stringify({ count: 2, title: 'Written through node 1' });
+    check(stateOf(gamma) === handedOver, 'Node 2 takes over the room with its full history');
+    check(stateOf(beta) === handedOver, 'Edits keep flowing after the owner shuts down');
+
+    await stop([beta, gamma], [nodes[1]]);
+
+    finish('CollabDoc Cluster Test');
+}
+
+runClusterTest();
@@ -0,0 +1,206 @@
+// sdk/test-convergence.ts
+import CollabDoc from './src/collab-doc';
+import { Operation, Path } from './src/collab-doc';
+import { applyOperation as applyServerOperation, createRoomState } from '../server/src/room';
+
+// Replays randomized concurrent set/del operations on nested paths, and text and list edits
+// below paths that are set and deleted too, in many different orders, on fresh client replicas
+// and on the server's room state, and checks they all end up identical. Text and list edits
+// are only delivered after the operations their author had seen, as the server's order does.
+// No server is needed: run with `npx ts-node test-convergence.ts [seed]`.
+
+// --- Configuration ---
+const ROUNDS = 25;            // Independent randomized scenarios
+const OPS_PER_ROUND = 40;     // Operations generated per scenario
+const ORDERS_PER_ROUND = 8;   // Delivery orders replayed per scenario
+const ACTORS = ['Alpha', 'Beta', 'Gamma'];
+const PATHS: Path[] = [
+    ['user'],
+    ['user', 'name'],
+    ['user', 'address'],
+    ['user', 'address', 'city'],
+    ['user', 'address', 'zip'],
+    ['settings'],
+    ['settings', 'theme'],
+];
+const TEXT: Path = ['user', 'bio'];
+const LIST: Path = ['settings', 'items'];
+
+// --- Seeded PRNG, so a failing seed can be replayed ---
+function createRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+/** JSON with sorted keys, so replicas that built the same object in a different order compare equal. */
+function canonical(value: any): string {
+    if (value === null || typeof value !== 'object') {
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(canonical).join(',')}]`;
+    }
+    return `{${Object.keys(value).sort().map((key) => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+}
+
+function randomValue(random: () => number, path: Path): any {
+    const leaf = `${path[path.length - 1]}-${Math.floor(random() * 100)}`;
+    // Parents are sometimes written as whole objects, so ancestor/descendant writes overlap.
+    if (path.length < 3 && random() < 0.5) {
+        return path[0] === 'user' && path.length === 1
+            ? { name: leaf, address: { city: leaf } }
+            : { theme: leaf, city: leaf };
+    }
+    return leaf;
+}
+
+function createReplica(actorId: string): CollabDoc {
+    // Never connected: operations are fed in directly, as if they had arrived from the server.
+    return new CollabDoc({ roomId: 'convergence', actorId, serverUrl: 'http://localhost:0' });
+}
+
+interface GeneratedOperation {
+    op: Operation;
+    /** Indexes of the operations that must be delivered before it. */
+    after: number[];
+}
+
+function isSequenceOperation(op: Operation): boolean {
+    return op.op !== 'set' && op.op !== 'del';
+}
+
+/** Edits the text or the list, wherever they currently are in the actor's document. */
+function editSequence(random: () => number, doc: CollabDoc, label: string) {
+    const text = doc.get(TEXT);
+    const list = doc.get(LIST);
+    if (random() < 0.5) {
+        const length = typeof text === 'string' ? text.length : 0;
+        if (length > 0 && random() < 0.3) {
+            doc.deleteText(TEXT, Math.floor(random() * length), 1 + Math.floor(random() * 3));
+        } else {
+            doc.insertText(TEXT, Math.floor(random() * (length + 1)), label);
+        }
+    } else {
+        const length = Array.isArray(list) ? list.length : 0;
+        if (length > 0 && random() < 0.3) {
+            doc.removeListItems(LIST, Math.floor(random() * length));
+        } else {
+            doc.insertListItems(LIST, Math.floor(random() * (length + 1)), [label]);
+        }
+    }
+}
+
+function deliver(replica: CollabDoc, op: Operation) {
+    (replica as any).applyOperation(op, true);
+}
+
+/** Has actors write concurrently, each seeing only some of the others' operations, with skewed clocks. */
+function generateOperations(random: () => number): GeneratedOperation[] {
+    const actors = ACTORS.map((actorId) => {
+        const doc = createReplica(actorId);
+        (doc as any).clockOffset = Math.floor(random() * 2000) - 1000;
+        // Recorded as they are made, rather than read back from the coalescing queue.
+        const made: Operation[] = [];
+        doc.on('localOperation', ({ op }) => made.push(op));
+        return { actorId, doc, made, seen: new Set<number>() };
+    });
+    const all: GeneratedOperation[] = [];
+    for (let i = 0; i < OPS_PER_ROUND; i++) {
+        const actor = pick(random, actors);
+        if (random() < 0.3) {
+            all.forEach(({ op }, index) => {
+                if (!actor.seen.has(index)) {
+                    deliver(actor.doc, op);
+                    actor.seen.add(index);
+                }
+            });
+        }
+        const made = actor.made.length;
+        const path = pick(random, PATHS);
+        const choice = random();
+        if (choice < 0.35) {
+            editSequence(random, actor.doc, `${actor.actorId[0]}${i}`);
+        } else if (choice < 0.5) {
+            actor.doc.delete(path);
+        } else {
+            actor.doc.set(path, randomValue(random, path));
+        }
+        for (const op of actor.made.slice(made)) {
+            // Writes replace whatever they find, so they may arrive in any order; text and list
+            // edits refer to elements made by the operations their author had seen.
+            all.push({ op, after: isSequenceOperation(op) ? [...actor.seen] : [] });
+            actor.seen.add(all.length - 1);
+        }
+    }
+    return all;
+}
+
+/** A random delivery order in which every operation comes after those it must follow. */
+function deliveryOrder(random: () => number, operations: GeneratedOperation[]): Operation[] {
+    const delivered = new Set<number>();
+    const order: Operation[] = [];
+    while (order.length < operations.length) {
+        const ready = operations
+            .map((generated, index) => index)
+            .filter((index) => !delivered.has(index) && operations[index].after.every((before) => delivered.has(before)));
+        const next = pick(random, ready);
+        delivered.add(next);
+        order.push(operations[next].op);
+    }
+    return order;
+}
+
+function runConvergenceTest(seed: number): boolean {
+    console.log(`--- Starting CollabDoc Convergence Test (seed ${seed}) ---`);
+    const random = createRandom(seed);
+    const originalLog = console.log;
+    const originalWarn = console.warn;
+    let failures = 0;
+
+    for (let round = 0; round < ROUNDS; round++) {
+        const results = new Set<string>();
+
+        // Replica logs are noise here; only the outcome matters.
+        console.log = () => {};
+        console.warn = () => {};
+        try {
+            const operations = generateOperations(random);
+            for (let order = 0; order < ORDERS_PER_ROUND; order++) {
+                const delivery = order === 0 ? operations.map(({ op }) => op) : deliveryOrder(random, operations);
+                const replica = createReplica(`Observer${order}`);
+                delivery.forEach((op) => deliver(replica, op));
+                results.add(canonical(replica.getDocumentState()));
+
+                const room = createRoomState();
+                delivery.forEach((op) => applyServerOperation(room, op));
+                results.add(canonical(room.state));
+            }
+        } finally {
+            console.log = originalLog;
+            console.warn = originalWarn;
+        }
+
+        console.assert(results.size === 1, `FAIL: Round ${round} diverged into ${results.size} different states!`);
+        if (results.size === 1) {
+            console.log(`SUCCESS: Round ${round} converged to ${[...results][0]}`);
+        } else {
+            failures++;
+            [...results].forEach((state) => console.log('  ', state));
+        }
+    }
+
+    console.log(`\n--- CollabDoc Convergence Test Complete: ${ROUNDS - failures}/${ROUNDS} rounds converged ---`);
+    return failures === 0;
+}
+
+const seedArgument = process.argv[2];
+const passed = runConvergenceTest(seedArgument ? parseInt(seedArgument, 10) : Date.now());
+process.exit(passed ? 0 : 1);
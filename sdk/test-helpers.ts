@@ -0,0 +1,90 @@
+// sdk/test-helpers.ts
+import CollabDoc from './src/collab-doc';
+import type { CollabDocConfig } from './src/collab-doc';
+import { createCollabServer } from '../server/src/server';
+import type { CollabServer, CollabServerOptions } from '../server/src/server';
+
+// What the sdk/test-*.ts scripts share: reporting checks, waiting, and starting a server
+// with clients connected to it. Each script is its own process, so the failure count is too.
+
+/** `console.log` as it was before `quiet()`, for the script's own output. */
+export const log = console.log;
+
+export function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+let failures = 0;
+export function check(condition: boolean, description: string) {
+    console.assert(condition, `FAIL: ${description}`);
+    if (condition) {
+        log(`SUCCESS: ${description}`);
+    } else {
+        failures++;
+    }
+}
+
+/** Logs how the checks went and ends the process, failing it when any check failed. */
+export function finish(title: string): never {
+    log(`\n--- ${title} Complete: ${failures === 0 ? 'all checks passed' : `${failures} checks failed`} ---`);
+    process.exit(failures === 0 ? 0 : 1);
+}
+
+/** Silences server and client logs, which are noise in a test; only the outcome matters. */
+export function quiet() {
+    console.log = () => {};
+    console.warn = () => {};
+}
+
+/** Connects `doc`, or waits for it to reconnect, and resolves once it has synced. */
+export function synced(doc: CollabDoc): Promise<void> {
+    return new Promise<void>(resolve => {
+        const onSynced = () => {
+            doc.off('synced', onSynced);
+            resolve();
+        };
+        doc.on('synced', onSynced);
+        doc.connect();
+    });
+}
+
+export function startServer(port: number, options: CollabServerOptions = {}): CollabServer {
+    const node = createCollabServer(options);
+    node.httpServer.listen(port);
+    return node;
+}
+
+/** A document for `roomId` on the server at `serverUrl`, synced before it is returned. */
+export async function connectDoc(serverUrl: string, roomId: string, actorId: string, config: Partial<CollabDocConfig> = {}): Promise<CollabDoc> {
+    const doc = new CollabDoc({ roomId, actorId, serverUrl, ...config });
+    await synced(doc);
+    return doc;
+}
+
+export interface TestRoom {
+    node: CollabServer;
+    serverUrl: string;
+    alpha: CollabDoc;
+    beta: CollabDoc;
+}
+
+/** Starts a server on `port` and connects two clients, Alpha and Beta, to `roomId`. */
+export async function startRoom(port: number, roomId: string, options: { server?: CollabServerOptions; alpha?: Partial<CollabDocConfig>; beta?: Partial<CollabDocConfig> } = {}): Promise<TestRoom> {
+    const node = startServer(port, options.server);
+    const serverUrl = `http://localhost:${port}`;
+    const [alpha, beta] = await Promise.all([
+        connectDoc(serverUrl, roomId, 'Alpha', options.alpha),
+        connectDoc(serverUrl, roomId, 'Beta', options.beta),
+    ]);
+    return { node, serverUrl, alpha, beta };
+}
+
+/** Disconnects every document and closes the servers. */
+export async function stop(docs: CollabDoc[], nodes: CollabServer[]) {
+    for (const doc of docs) {
+        doc.disconnect();
+    }
+    for (const node of nodes) {
+        await node.close();
+    }
+}
@@ -0,0 +1,62 @@
+// sdk/test-history.ts
+import { check, connectDoc, finish, log, quiet, sleep, startRoom, stop } from './test-helpers';
+
+// Checks restoring a version of a room that holds collaborative text, rich text and lists:
+// the restored values come back with their formatting, stay collaborative afterwards, and
+// every client, including one joining later, agrees on them.
+// Run with `npx ts-node test-history.ts`.
+
+// --- Configuration ---
+const PORT = 8112;
+const ROOM_ID = 'history-test-document';
+
+async function runHistoryTest() {
+    log('--- Starting CollabDoc History Restore Test ---');
+    quiet();
+
+    const { node, serverUrl, alpha, beta } = await startRoom(PORT, ROOM_ID);
+
+    const body = alpha.getRichText(['page', 'body']);
+    alpha.set(['page', 'title'], 'Draft');
+    body.insert(0, 'Hello world');
+    body.format(0, 5, { bold: true });
+    alpha.insertListItems(['page', 'tags'], 0, ['a', 'b', 'c']);
+    await sleep(300);
+    const snapshot = await alpha.createSnapshot('before edits');
+    const expected = JSON.stringify(body.toDelta());
+
+    alpha.set(['page', 'title'], 'Final');
+    body.delete(0, 6);
+    body.insert(5, '!', { italic: true });
+    body.format(0, 3, { bold: true });
+    beta.removeListItems(['page', 'tags'], 1);
+    beta.insertListItems(['page', 'tags'], 2, ['d']);
+    await sleep(300);
+
+    await alpha.restoreSnapshot(snapshot.id);
+    await sleep(300);
+    check(alpha.get(['page', 'title']) === 'Draft' && beta.get(['page', 'title']) === 'Draft', 'Plain values are restored');
+    check(JSON.stringify(body.toDelta()) === expected && JSON.stringify(beta.getRichText(['page', 'body']).toDelta()) === expected, `Text is restored with its formatting (${JSON.stringify(beta.getRichText(['page', 'body']).toDelta())})`);
+    check(JSON.stringify(beta.get(['page', 'tags'])) === '["a","b","c"]', 'Lists are restored');
+
+    // Restored text and lists are still collaborative: concurrent edits merge instead of being refused.
+    const rejections: unknown[] = [];
+    alpha.on('rejected', rejection => rejections.push(rejection));
+    beta.on('rejected', rejection => rejections.push(rejection));
+    alpha.insertText(['page', 'body'], 11, '!');
+    beta.insertText(['page', 'body'], 0, '> ');
+    alpha.insertListItems(['page', 'tags'], 3, ['z']);
+    beta.moveListItem(['page', 'tags'], 0, 2);
+    await sleep(300);
+    check(rejections.length === 0 && alpha.get(['page', 'body']) === '> Hello world!' && beta.get(['page', 'body']) === alpha.get(['page', 'body']), 'Text edits after a restore merge');
+    check(JSON.stringify(alpha.get(['page', 'tags'])) === '["b","c","a","z"]' && JSON.stringify(beta.get(['page', 'tags'])) === JSON.stringify(alpha.get(['page', 'tags'])), 'List edits after a restore merge');
+
+    const reader = await connectDoc(serverUrl, ROOM_ID, 'Reader');
+    check(JSON.stringify(reader.getRichText(['page', 'body']).toDelta()) === JSON.stringify(body.toDelta()), 'A client joining later agrees on the restored formatting');
+
+    await stop([alpha, beta, reader], [node]);
+
+    finish('CollabDoc History Restore Test');
+}
+
+runHistoryTest();
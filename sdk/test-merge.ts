@@ -0,0 +1,109 @@
+// sdk/test-merge.ts
+import CollabDoc from './src/collab-doc';
+import type { MergeStrategies, RejectedOperation } from './src/collab-doc';
+import { check, connectDoc, finish, log, quiet, sleep, startRoom, stop, synced } from './test-helpers';
+
+// Checks merge strategies: two clients edit paths with counter, max, min, multi-value and
+// custom strategies while one of them is offline, and both, the server and a client joining
+// afterwards must agree on values that keep every concurrent edit. A reset concurrent with
+// increments wins over them on every replica. Run with `npx ts-node test-merge.ts`.
+
+// --- Configuration ---
+const PORT = 8109;
+const ROOM_ID = 'merge-test-document';
+
+const STRATEGIES: MergeStrategies = {
+    'likes': 'counter',
+    'scores.*': 'max',
+    'fastest': 'min',
+    'status': 'mvr',
+    // Keeps every tag anyone added, in a stable order.
+    'tags': (current: string[] | undefined, incoming: string[]) => [...new Set([...(current ?? []), ...incoming])].sort(),
+};
+
+async function runMergeTest() {
+    log('--- Starting CollabDoc Merge Strategies Test ---');
+    quiet();
+
+    const { node, serverUrl, alpha, beta } = await startRoom(PORT, ROOM_ID, {
+        server: { mergeStrategies: { [ROOM_ID]: STRATEGIES } },
+        alpha: { mergeStrategies: STRATEGIES },
+        beta: { mergeStrategies: STRATEGIES },
+    });
+
+    alpha.set(['status'], 'draft');
+    alpha.set(['tags'], ['news']);
+    await sleep(200);
+
+    // Beta edits offline while Alpha edits the same paths online.
+    beta.disconnect();
+    await sleep(100);
+    for (let i = 0; i < 3; i++) {
+        alpha.increment(['likes']);
+    }
+    alpha.set(['scores', 'alpha'], 10);
+    alpha.set(['fastest'], 42);
+    alpha.set(['status'], 'review');
+    alpha.set(['tags'], ['sports']);
+    beta.increment(['likes'], 2);
+    beta.set(['scores', 'alpha'], 7);
+    beta.set(['fastest'], 39);
+    beta.set(['status'], 'published');
+    beta.set(['tags'], ['local']);
+    await sleep(200);
+    await synced(beta);
+    await sleep(300);
+
+    const reader = await connectDoc(serverUrl, ROOM_ID, 'Reader', { mergeStrategies: STRATEGIES });
+    const agree = (path: (string | number)[]) => [beta, reader].every(doc => JSON.stringify(doc.get(path)) === JSON.stringify(alpha.get(path)));
+
+    check(alpha.get(['likes']) === 5 && agree(['likes']), `Concurrent increments add up (${alpha.get(['likes'])})`);
+    check(alpha.get(['scores', 'alpha']) === 10 && agree(['scores', 'alpha']), 'A max register keeps the greatest value, not the latest');
+    check(alpha.get(['fastest']) === 39 && agree(['fastest']), 'A min register keeps the smallest value');
+    check(JSON.stringify(alpha.get(['status'])) === '["published","review"]' && agree(['status']), `A multi-value register keeps both concurrent values (${JSON.stringify(alpha.get(['status']))})`);
+    check(JSON.stringify(alpha.get(['tags'])) === '["local","news","sports"]' && agree(['tags']), 'A custom merge function combines concurrent writes');
+
+    alpha.set(['status'], 'done');
+    await sleep(200);
+    check(JSON.stringify(beta.get(['status'])) === '["done"]', 'A write that saw every value of a multi-value register replaces them');
+
+    // Beta increments offline while Alpha resets the counter.
+    const conflicts: RejectedOperation[] = [];
+    beta.on('conflict', conflict => conflicts.push(conflict));
+    beta.disconnect();
+    await sleep(100);
+    beta.increment(['likes'], 4);
+    alpha.set(['likes'], 0);
+    await sleep(200);
+    await synced(beta);
+    await sleep(300);
+    check(alpha.get(['likes']) === 0 && beta.get(['likes']) === 0 && reader.get(['likes']) === 0, 'A reset wins over increments that did not see it');
+    check(conflicts.length === 1 && conflicts[0].operation.op === 'merge', 'The stale increment is reported as a conflict');
+
+    alpha.increment(['likes'], -1);
+    await sleep(200);
+    check(beta.get(['likes']) === -1 && reader.get(['likes']) === -1, 'Increments after the reset apply again');
+
+    let thrown = false;
+    try {
+        alpha.increment(['title']);
+    } catch {
+        thrown = true;
+    }
+    check(thrown, 'Incrementing a path without a counter strategy throws');
+
+    // A client whose strategies the server does not share.
+    const stray = new CollabDoc({ roomId: ROOM_ID, actorId: 'Stray', serverUrl, mergeStrategies: { 'views': 'counter' } });
+    const rejections: RejectedOperation[] = [];
+    stray.on('rejected', rejection => rejections.push(rejection));
+    await synced(stray);
+    stray.increment(['views']);
+    await sleep(200);
+    check(rejections[0]?.outcome === 'invalid' && reader.get(['views']) === undefined, 'The server refuses merges on paths it has no strategy for');
+
+    await stop([alpha, beta, reader, stray], [node]);
+
+    finish('CollabDoc Merge Strategies Test');
+}
+
+runMergeTest();
@@ -0,0 +1,72 @@
+// sdk/test-pause.ts
+import { check, finish, log, quiet, sleep, startRoom, stop } from './test-helpers';
+
+// Checks reviewing remote edits that arrived while a document was paused: they are listed per
+// path with the local and remote value, conflicts with unsent local edits are marked, and
+// accepting or rejecting them leaves every replica with the chosen values.
+// Run with `npx ts-node test-pause.ts`.
+
+// --- Configuration ---
+const PORT = 8108;
+const ROOM_ID = 'pause-test-document';
+
+async function runPauseTest() {
+    log('--- Starting CollabDoc Pause Review Test ---');
+    quiet();
+
+    const { node, alpha, beta } = await startRoom(PORT, ROOM_ID);
+
+    beta.set(['title'], 'Start');
+    beta.insertText(['body'], 0, 'hello');
+    beta.insertListItems(['tags'], 0, ['a', 'b']);
+    await sleep(200);
+
+    let notifications = 0;
+    alpha.on('pendingChanges', () => notifications++);
+    alpha.pause();
+    beta.set(['title'], 'Remote title');
+    beta.set(['color'], 'red');
+    beta.insertText(['body'], 5, ' world');
+    await sleep(50);
+    alpha.set(['title'], 'Local title');
+    await sleep(200);
+
+    const pending = alpha.getPendingChanges();
+    const at = (key: string) => pending.find(change => change.path[0] === key);
+    check(pending.length === 3 && notifications === 4, `Remote edits made while paused are listed per path (${pending.length} paths, ${notifications} notifications)`);
+    check(at('title')?.conflict === true && at('title')?.localValue === 'Local title' && at('title')?.remoteValue === 'Remote title', 'A path also edited locally is a conflict with both values');
+    check(at('title')?.localOperations.length === 1, 'A conflict lists the unsent local edits');
+    check(at('color')?.conflict === false && at('color')?.localValue === undefined && at('color')?.remoteValue === 'red', 'A path only edited remotely is not a conflict');
+    check(at('body')?.remoteValue === 'hello world' && at('body')?.operations.length === 1, 'Text edits show the merged text');
+    check(alpha.get(['title']) === 'Local title' && alpha.get(['color']) === undefined && alpha.get(['body']) === 'hello', 'Reviewing leaves the document as it was');
+
+    alpha.acceptPendingChanges([['title']]);
+    check(alpha.get(['title']) === 'Remote title' && alpha.getPendingChanges().length === 2, 'Accepting a conflict takes the remote value although the local edit was later');
+    alpha.rejectPendingChanges([['color']]);
+    check(alpha.get(['color']) === undefined && alpha.getPendingChanges().length === 1, 'Rejecting a path keeps the local value');
+    check(!alpha.isLive(), 'Accepting and rejecting keep the document paused');
+
+    alpha.resume();
+    await sleep(300);
+    check(alpha.getPendingChanges().length === 0 && alpha.get(['body']) === 'hello world', 'Resuming applies what was left');
+    check(beta.get(['title']) === 'Remote title' && beta.get(['color']) === undefined && beta.get(['body']) === 'hello world', 'Other replicas end up with the chosen values');
+
+    alpha.pause();
+    beta.insertText(['body'], 0, 'Oh, ');
+    beta.insertListItems(['tags'], 1, ['x']);
+    await sleep(200);
+    alpha.rejectPendingChanges();
+    alpha.resume();
+    await sleep(300);
+    check(alpha.get(['body']) === 'hello world' && beta.get(['body']) === 'hello world', 'A rejected text edit is undone everywhere');
+    check(JSON.stringify(beta.get(['tags'])) === '["a","b"]' && JSON.stringify(alpha.get(['tags'])) === '["a","b"]', 'A rejected list edit is undone everywhere');
+    beta.insertText(['body'], 11, '!');
+    await sleep(200);
+    check(alpha.get(['body']) === 'hello world!', 'The text stays collaborative after a rejection');
+
+    await stop([alpha, beta], [node]);
+
+    finish('CollabDoc Pause Review Test');
+}
+
+runPauseTest();
@@ -0,0 +1,152 @@
+// sdk/test-reconnect.ts
+import { io } from 'socket.io-client';
+import CollabDoc from './src/collab-doc';
+import type { ConnectionState, RejectedOperation } from './src/collab-doc';
+import { check, connectDoc, finish, log, quiet, sleep, startServer, stop, synced } from './test-helpers';
+
+// Checks the connection state machine and operation acks: a document goes through its states
+// on connect, keeps operations until the server confirms them, resends the ones lost with a
+// dropped connection once it is back, and gives up after the configured attempts. The server
+// must not apply an operation it receives twice, and local writes that lose a conflict or are
+// refused must be reported with their outcome. Run with `npx ts-node test-reconnect.ts`.
+
+// --- Configuration ---
+const PORT = 8106;
+const UNUSED_PORT = 8107;
+const ROOM_ID = 'reconnect-test-document';
+const READ_ONLY_ROOM_ID = 'reconnect-test-read-only';
+
+async function runReconnectTest() {
+    log('--- Starting CollabDoc Reconnect Test ---');
+    quiet();
+
+    const node = startServer(PORT, {
+        roomSchemas: { [ROOM_ID]: { type: 'object', properties: { count: { type: 'number' } } } },
+        auth: {
+            required: false,
+            authenticate: async () => null,
+            authorizeRoom: async (_identity, roomId) => (roomId === READ_ONLY_ROOM_ID ? 'read' : 'write'),
+        },
+    });
+
+    // Swallows operations from Alpha and then drops its connection, like a socket that died
+    // while the operations were on their way.
+    let dropOperations = false;
+    node.io.on('connection', socket => {
+        socket.use(([event], next) => {
+            if (dropOperations && (event === 'operation' || event === 'operations')) {
+                dropOperations = false;
+                socket.conn.close();
+                return;
+            }
+            next();
+        });
+    });
+
+    const states: ConnectionState[] = [];
+    const retries: number[] = [];
+    const alpha = new CollabDoc({ roomId: ROOM_ID, actorId: 'Alpha', serverUrl: `http://localhost:${PORT}`, reconnect: { initialDelayMs: 100, maxDelayMs: 400 } });
+    alpha.on('connectionState', state => states.push(state));
+    alpha.on('reconnecting', ({ attempt }) => retries.push(attempt));
+    await synced(alpha);
+    const beta = await connectDoc(`http://localhost:${PORT}`, ROOM_ID, 'Beta');
+    check(states.join(',') === 'connecting,syncing,synced', `Connecting goes through connecting, syncing and synced (${states.join(',')})`);
+    check(alpha.getProtocol()?.features.includes('operation_acks') === true, 'Client and server agree on operation acks');
+
+    alpha.set(['title'], 'Confirmed');
+    await sleep(100);
+    check(alpha.getOfflineQueue().length === 0 && beta.get(['title']) === 'Confirmed', 'An acknowledged operation leaves the queue');
+
+    states.length = 0;
+    dropOperations = true;
+    alpha.set(['title'], 'Lost on the way');
+    alpha.insertText(['body'], 0, 'resent');
+    await sleep(30);
+    check(alpha.getOfflineQueue().length > 0, 'Operations sent on a dying connection stay queued until confirmed');
+    await sleep(1000);
+    check(states.join(',') === 'reconnecting,syncing,synced' && retries.length === 1, `A dropped connection is retried and resynced (${states.join(',')})`);
+    check(beta.get(['title']) === 'Lost on the way' && beta.get(['body']) === 'resent', 'Operations lost with the connection are resent after reconnecting');
+    check(alpha.getOfflineQueue().length === 0, 'The resent operations were confirmed');
+
+    // A client that sends the same operation twice, e.g. because the first ack was lost.
+    const raw = io(`http://localhost:${PORT}`, {
+        transports: ['websocket'],
+        auth: { protocol: { version: 2, minVersion: 1, features: ['operation_acks'] } },
+    });
+    const acks: { operationId: string; outcome: string; seq: number }[] = [];
+    raw.on('ack', (_roomId: string, received: { operationId: string; outcome: string; seq: number }[]) => acks.push(...received));
+    await new Promise<void>(resolve => {
+        raw.on('initial_state', () => resolve());
+        raw.emit('join_room', ROOM_ID);
+    });
+    const operation = { id: 'Raw-1', path: ['raw'], op: 'set', value: 1, timestamp: Date.now(), counter: 0, actorId: 'Raw', version: 1 };
+    raw.emit('operation', ROOM_ID, operation);
+    await sleep(100);
+    raw.emit('operation', ROOM_ID, { ...operation, value: 2 });
+    await sleep(200);
+    check(acks.length === 2 && acks[0].seq === acks[1].seq && acks.every(ack => ack.outcome === 'applied'), 'An operation received twice is acknowledged twice as applied with the same sequence number');
+    check(beta.get(['raw']) === 1, 'An operation received twice is applied once');
+    raw.close();
+
+    // Beta writes the title offline; Alpha writes it later but gets to the server first.
+    const conflicts: RejectedOperation[] = [];
+    const rejections: RejectedOperation[] = [];
+    beta.on('conflict', rejection => conflicts.push(rejection));
+    beta.on('rejected', rejection => rejections.push(rejection));
+    beta.disconnect();
+    await sleep(100);
+    beta.set(['title'], 'Written offline');
+    await sleep(20);
+    alpha.set(['title'], 'Written later');
+    await sleep(200);
+    let operationsSeen = 0;
+    node.events.on(event => (operationsSeen += event.type === 'operation.applied' ? 1 : 0));
+    await synced(beta);
+    await sleep(200);
+    check(conflicts.length === 1 && conflicts[0].outcome === 'superseded' && conflicts[0].winner?.actorId === 'Alpha', 'A write that lost to a later one is reported as a conflict naming the winner');
+    check(conflicts[0]?.operation.value === 'Written offline' && operationsSeen === 0, 'The losing write is reported with its operation and is not stored');
+    check(beta.get(['title']) === 'Written later' && beta.getOfflineQueue().length === 0, 'The winning value stays and the losing write leaves the queue');
+
+    beta.set(['count'], 'not a number');
+    await sleep(200);
+    check(rejections.length === 1 && rejections[0].outcome === 'invalid' && rejections[0].code === 'schema_violation', 'A write the room schema refuses is reported as rejected');
+
+    const reader = new CollabDoc({ roomId: READ_ONLY_ROOM_ID, actorId: 'Reader', serverUrl: `http://localhost:${PORT}` });
+    const readerRejections: RejectedOperation[] = [];
+    reader.on('rejected', rejection => readerRejections.push(rejection));
+    await synced(reader);
+    reader.set(['note'], 'Not allowed');
+    await sleep(200);
+    check(readerRejections[0]?.outcome === 'unauthorized' && readerRejections[0].code === 'read_only' && reader.getOfflineQueue().length === 0, 'A write to a read-only room is reported as unauthorized');
+    reader.disconnect();
+
+    // Delta edits before it ever connects, so its first sync replaces the document it edited.
+    const delta = new CollabDoc({ roomId: ROOM_ID, actorId: 'Delta', serverUrl: `http://localhost:${PORT}` });
+    delta.set(['subtitle'], 'Made offline');
+    delta.insertText(['notes'], 0, 'typed first');
+    await synced(delta);
+    check(delta.get(['subtitle']) === 'Made offline' && delta.get(['notes']) === 'typed first', 'Edits made before the first sync survive it on their author');
+    await sleep(200);
+    check(beta.get(['subtitle']) === 'Made offline' && beta.get(['notes']) === 'typed first' && delta.get(['title']) === beta.get(['title']), 'Peers receive them, and the author gets the rest of the room');
+    check(delta.getOfflineQueue().length === 0 && delta.get(['notes']) === 'typed first', 'Their echo confirms them without applying them twice');
+    delta.disconnect();
+
+    // Nothing listens on this port, so every attempt fails.
+    const gaveUp: any[] = [];
+    const lonely = new CollabDoc({ roomId: ROOM_ID, actorId: 'Gamma', serverUrl: `http://localhost:${UNUSED_PORT}`, reconnect: { initialDelayMs: 50, maxAttempts: 2 } });
+    const lonelyStates: ConnectionState[] = [];
+    lonely.on('connectionState', state => lonelyStates.push(state));
+    lonely.on('error', err => gaveUp.push(err));
+    lonely.connect();
+    await sleep(1000);
+    check(lonelyStates.join(',') === 'connecting,reconnecting,offline', `Retries stop after maxAttempts (${lonelyStates.join(',')})`);
+    check(gaveUp.some(err => err?.code === 'reconnect_failed'), 'Giving up is reported as reconnect_failed');
+
+    alpha.disconnect();
+    check(alpha.getConnectionState() === 'offline', 'disconnect() leaves the document offline');
+    await stop([beta, lonely], [node]);
+
+    finish('CollabDoc Reconnect Test');
+}
+
+runReconnectTest();
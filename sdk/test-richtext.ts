@@ -0,0 +1,102 @@
+// sdk/test-richtext.ts
+import CollabDoc, { UndoManager } from './src/collab-doc';
+import { check, connectDoc, finish, log, quiet, sleep, startRoom, stop, synced } from './test-helpers';
+
+// Checks rich text: two clients format overlapping ranges of the same text, one of them typing
+// into the other's range while offline, and both, the server and a client joining afterwards must
+// agree on the text and its formatting. Also round-trips a delta and undoes formatting.
+// Run with `npx ts-node test-richtext.ts`.
+
+// --- Configuration ---
+const PORT = 8110;
+const ROOM_ID = 'richtext-test-document';
+
+async function runRichTextTest() {
+    log('--- Starting CollabDoc Rich Text Test ---');
+    quiet();
+
+    const { node, serverUrl, alpha, beta } = await startRoom(PORT, ROOM_ID);
+
+    const alphaText = alpha.getRichText(['body']);
+    const betaText = beta.getRichText(['body']);
+    alphaText.insert(0, 'Hello brave new world');
+    await sleep(200);
+
+    let observed = 0;
+    const stopObserving = betaText.observe(() => observed++);
+
+    // Alpha bolds "brave new"; Beta, offline, italicizes "new world", bolds "Hello" and types inside Alpha's range.
+    beta.disconnect();
+    await sleep(100);
+    alphaText.format(6, 9, { bold: true });
+    betaText.format(12, 9, { italic: true });
+    betaText.format(0, 5, { bold: true, color: 'red' });
+    betaText.insert(12, 'shiny ');
+    await sleep(200);
+    await synced(beta);
+    await sleep(300);
+
+    const expected = JSON.stringify([
+        { insert: 'Hello', attributes: { bold: true, color: 'red' } },
+        { insert: ' ' },
+        { insert: 'brave shiny ', attributes: { bold: true } },
+        { insert: 'new', attributes: { bold: true, italic: true } },
+        { insert: ' world', attributes: { italic: true } },
+    ]);
+    check(JSON.stringify(alphaText.toDelta().ops) === expected, 'Overlapping bold and italic both apply, and text typed concurrently inside a bold range is bold');
+    check(JSON.stringify(betaText.toDelta()) === JSON.stringify(alphaText.toDelta()), 'Both clients agree on the formatting');
+    check(observed > 0, 'Formatting from another client is observed');
+    stopObserving();
+
+    // Concurrent conflicting values of one attribute: the later write wins everywhere.
+    alphaText.format(0, 5, { color: 'blue' });
+    await sleep(20);
+    betaText.format(0, 5, { color: 'green', bold: null });
+    await sleep(300);
+    check(JSON.stringify(alphaText.toDelta().ops[0]) === '{"insert":"Hello","attributes":{"color":"green"}}'
+        && JSON.stringify(betaText.toDelta()) === JSON.stringify(alphaText.toDelta()), 'The later value of an attribute wins and null removes one');
+
+    const reader = await connectDoc(serverUrl, ROOM_ID, 'Reader');
+    check(JSON.stringify(reader.getRichText(['body']).toDelta()) === JSON.stringify(alphaText.toDelta()), 'A client joining later receives the formatting');
+    check(reader.get(['body']) === 'Hello brave shiny new world', 'The plain text stays readable at the path');
+
+    // Inserted text gets exactly the attributes it is given.
+    alphaText.insert(6, 'very ', { underline: true });
+    check(JSON.stringify(alpha.getTextFormats(['body'])[6]) === '{"underline":true}', 'Inserted text gets exactly its own attributes');
+
+    // A delta as an editor would report it: keep "Hello ", delete "very ", make "brave" a link.
+    alphaText.applyDelta({ ops: [{ retain: 6 }, { delete: 5 }, { retain: 5, attributes: { link: 'https://example.com' } }, { insert: '!', attributes: { bold: true } }] });
+    await sleep(200);
+    const linked = betaText.toDelta().ops.find(op => 'insert' in op && op.insert === 'brave');
+    check(beta.get(['body']) === 'Hello brave! shiny new world' && linked !== undefined && 'insert' in linked && linked.attributes?.link === 'https://example.com', 'Applying a delta edits and formats the text');
+
+    const copy = new CollabDoc({ roomId: 'richtext-copy', actorId: 'Copy', serverUrl });
+    copy.getRichText(['body']).applyDelta(alphaText.toDelta());
+    check(JSON.stringify(copy.getRichText(['body']).toDelta()) === JSON.stringify(alphaText.toDelta()), 'A delta exported from one text imports unchanged into another');
+
+    // Rejecting formatting that arrived while paused takes it back everywhere.
+    beta.pause();
+    alphaText.format(0, 5, { strike: true });
+    await sleep(200);
+    beta.rejectPendingChanges();
+    beta.resume();
+    await sleep(200);
+    check(alpha.getTextFormats(['body'])[0].strike === undefined && JSON.stringify(betaText.toDelta()) === JSON.stringify(alphaText.toDelta()), 'Rejecting formatting received while paused reverts it');
+
+    // Undo brings formatting back, including that of deleted text.
+    const undoManager = new UndoManager(alpha);
+    alphaText.format(0, 5, { color: null, italic: true });
+    undoManager.stopCapturing();
+    alphaText.delete(6, 5);
+    undoManager.undo();
+    check(JSON.stringify(alpha.getTextFormats(['body'])[6]) === '{"bold":true,"link":"https://example.com"}', 'Undoing a delete restores the formatting of the text');
+    undoManager.undo();
+    await sleep(200);
+    check(JSON.stringify(betaText.toDelta().ops[0]) === '{"insert":"Hello","attributes":{"color":"green"}}', 'Undoing formatting restores the previous attributes everywhere');
+
+    await stop([alpha, beta, reader, copy], [node]);
+
+    finish('CollabDoc Rich Text Test');
+}
+
+runRichTextTest();
@@ -0,0 +1,75 @@
+// sdk/test-rooms.ts
+import CollabDoc, { CollabConnection } from './src/collab-doc';
+import { check, connectDoc, finish, log, quiet, sleep, startServer, stop, synced } from './test-helpers';
+
+// Checks that documents in several rooms share one socket: each syncs its own room, edits
+// stay in their room, and one document leaving its room leaves the others connected.
+// Run with `npx ts-node test-rooms.ts`.
+
+// --- Configuration ---
+const PORT = 8105;
+const SERVER_URL = `http://localhost:${PORT}`;
+
+async function runRoomsTest() {
+    log('--- Starting CollabDoc Shared Connection Test ---');
+    quiet();
+
+    const node = startServer(PORT);
+
+    // One client holding three rooms over a single connection.
+    const connection = new CollabConnection({ serverUrl: SERVER_URL });
+    const notes = new CollabDoc({ roomId: 'notes', actorId: 'Alpha', connection });
+    const tasks = new CollabDoc({ roomId: 'tasks', actorId: 'Alpha', connection });
+    const board = new CollabDoc({ roomId: 'board', actorId: 'Alpha', connection });
+    await Promise.all([synced(notes), synced(tasks), synced(board)]);
+    check(node.io.sockets.sockets.size === 1, 'Three documents in different rooms share one socket');
+    check(connection.getProtocol()?.features.includes('multiple_rooms') === true, 'Client and server agree on multiple rooms per socket');
+
+    // Another client with its own socket per document, as before.
+    const [otherNotes, otherTasks] = await Promise.all([connectDoc(SERVER_URL, 'notes', 'Beta'), connectDoc(SERVER_URL, 'tasks', 'Beta')]);
+
+    notes.set(['title'], 'Meeting notes');
+    tasks.set(['title'], 'Todo');
+    otherTasks.set(['owner'], 'Beta');
+    await sleep(300);
+    check(otherNotes.get(['title']) === 'Meeting notes' && otherTasks.get(['title']) === 'Todo', 'Edits on the shared socket reach each room');
+    check(tasks.get(['owner']) === 'Beta', 'Edits from others reach the right document on the shared socket');
+    check(notes.get(['owner']) === undefined && board.get(['title']) === undefined, 'Edits do not leak into other rooms');
+
+    const duplicate = new CollabDoc({ roomId: 'notes', actorId: 'Alpha', connection });
+    const refusal = await new Promise<any>(resolve => {
+        duplicate.on('error', err => resolve(err));
+        duplicate.connect();
+    });
+    check(refusal?.code === 'room_in_use' && !duplicate.isConnected(), 'A second document for a room already open on the connection is refused');
+
+    notes.disconnect();
+    await sleep(200);
+    check(!notes.isConnected() && tasks.isConnected() && connection.isConnected(), 'Leaving one room keeps the socket and the other rooms');
+    check(node.io.sockets.adapter.rooms.get('notes')?.size === 1, 'The server removed the socket from the room it left');
+
+    otherNotes.set(['title'], 'Changed while away');
+    otherTasks.set(['title'], 'Still here');
+    await sleep(300);
+    check(notes.get(['title']) === 'Meeting notes' && tasks.get(['title']) === 'Still here', 'Only the rooms still open receive edits');
+
+    await synced(notes);
+    check(notes.get(['title']) === 'Changed while away' && node.io.sockets.sockets.size === 3, 'Rejoining a room catches up over the same socket');
+
+    tasks.disconnect();
+    board.disconnect();
+    notes.disconnect();
+    await sleep(200);
+    check(!connection.isConnected(), 'The socket closes once its last room is left');
+
+    await Promise.all([synced(notes), synced(tasks)]);
+    connection.close();
+    await sleep(200);
+    check(!connection.isConnected() && !notes.isConnected() && !tasks.isConnected() && node.io.sockets.sockets.size === 2, 'Closing the connection disconnects every document on it');
+
+    await stop([otherNotes, otherTasks], [node]);
+
+    finish('CollabDoc Shared Connection Test');
+}
+
+runRoomsTest();
@@ -0,0 +1,93 @@
+// sdk/test-schema.ts
+import { io } from 'socket.io-client';
+import { SchemaValidationError } from './src/collab-doc';
+import type { JSONSchema, RejectedOperation } from './src/collab-doc';
+import { check, connectDoc, finish, log, quiet, sleep, startRoom, stop } from './test-helpers';
+
+// Checks schema enforcement: a client with the room's schema refuses edits that would break it
+// before applying or sending anything, the server refuses them from a client without it, and
+// paths that would reach an object's prototype are refused on both sides.
+// Run with `npx ts-node test-schema.ts`.
+
+// --- Configuration ---
+const PORT = 8113;
+const ROOM_ID = 'schema-test-document';
+
+const SCHEMA: JSONSchema = {
+    type: 'object',
+    required: ['title', 'status'],
+    properties: {
+        title: { type: 'string', maxLength: 12 },
+        status: { enum: ['draft', 'published'] },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 3 },
+    },
+};
+
+function thrownBy(fn: () => void): unknown {
+    try {
+        fn();
+    } catch (e) {
+        return e;
+    }
+    return null;
+}
+
+async function runSchemaTest() {
+    log('--- Starting CollabDoc Schema Test ---');
+    quiet();
+
+    // Alpha has the schema; Beta does not, so only the server stops it.
+    const { node, serverUrl, alpha, beta } = await startRoom(PORT, ROOM_ID, {
+        server: { roomSchemas: { [ROOM_ID]: SCHEMA } },
+        alpha: { schema: SCHEMA },
+    });
+
+    alpha.set(['title'], 'Plan');
+    check(alpha.get(['title']) === 'Plan', 'An empty document can be filled in one required field at a time');
+    alpha.set(['status'], 'draft');
+    alpha.insertListItems(['tags'], 0, ['a', 'b']);
+    await sleep(200);
+
+    const queued = alpha.getOfflineQueue().length;
+    const refused = thrownBy(() => alpha.set(['status'], 'archived'));
+    check(refused instanceof SchemaValidationError && refused.violations[0]?.path.join('.') === 'status', 'A local edit against the schema throws with its violations');
+    check(alpha.get(['status']) === 'draft' && alpha.getOfflineQueue().length === queued, 'A refused local edit is neither applied nor sent');
+    check(thrownBy(() => alpha.insertText(['title'], 4, ' for the week')) instanceof SchemaValidationError && alpha.get(['title']) === 'Plan', 'Text edits are checked against the schema too');
+    check(thrownBy(() => alpha.insertListItems(['tags'], 2, ['c', 'd'])) instanceof SchemaValidationError, 'List edits are checked against the schema too');
+    check(thrownBy(() => alpha.delete(['title'])) instanceof SchemaValidationError, 'Deleting a required field throws');
+
+    const rejections: RejectedOperation[] = [];
+    beta.on('rejected', rejection => rejections.push(rejection));
+    beta.set(['status'], 'archived');
+    beta.insertListItems(['tags'], 0, [42]);
+    await sleep(300);
+    check(rejections.length === 2 && rejections.every(rejection => rejection.outcome === 'invalid' && rejection.code === 'schema_violation'), 'The server refuses edits against the room schema from a client without it');
+    check(rejections[0]?.violations?.[0]?.path.join('.') === 'status', 'The server reports what the edit would have broken');
+    check(alpha.get(['status']) === 'draft' && JSON.stringify(alpha.get(['tags'])) === '["a","b"]', 'Other clients never see a refused edit');
+
+    const reader = await connectDoc(serverUrl, ROOM_ID, 'Reader');
+    check(reader.get(['status']) === 'draft' && JSON.stringify(reader.get(['tags'])) === '["a","b"]', 'A client joining later gets the room without the refused edits');
+
+    // Paths through `__proto__`, `constructor` or `prototype` would write to shared prototypes.
+    check(['__proto__', 'constructor', 'prototype'].every(segment => thrownBy(() => beta.set([segment, 'polluted'], true)) instanceof Error), 'Local edits to prototype paths throw');
+    const errors: { code: string }[] = [];
+    const raw = io(serverUrl, { transports: ['websocket'] });
+    raw.on('error', (error: { code: string }) => errors.push(error));
+    await new Promise<void>(resolve => {
+        raw.on('initial_state', () => resolve());
+        raw.emit('join_room', ROOM_ID);
+    });
+    for (const path of [['__proto__', 'polluted'], ['tags', 'constructor', 'prototype', 'polluted']]) {
+        raw.emit('operation', ROOM_ID, { id: `Raw-${path.length}`, path, op: 'set', value: true, timestamp: Date.now(), counter: 0, actorId: 'Raw', version: 1 });
+    }
+    await sleep(300);
+    check(errors.length === 2 && errors.every(error => error.code === 'invalid_operation'), 'The server refuses operations on prototype paths as invalid');
+    check(({} as any).polluted === undefined && (Array.prototype as any).polluted === undefined, 'No prototype was written to');
+    raw.close();
+
+    await stop([alpha, beta, reader], [node]);
+
+    finish('CollabDoc Schema Test');
+}
+
+runSchemaTest();
@@ -0,0 +1,207 @@
+// sdk/test-sequence.ts
+import CollabDoc from './src/collab-doc';
+import { Operation, Path } from './src/collab-doc';
+import { applyOperation as applyServerOperation, createRoomState } from '../server/src/room';
+import type { RoomState } from '../server/src/room';
+import { formatsFromSequence } from '../server/src/sequence';
+import { check, finish, log, quiet } from './test-helpers';
+
+// Checks the text and list CRDTs. First concurrent edits with a known outcome: typing at the
+// same place, typing into a deleted range, moving a removed item. Then randomized concurrent
+// text, formatting and list edits replayed in many causal orders on fresh client replicas and
+// on the server's room state, which must all end up identical.
+// No server is needed: run with `npx ts-node test-sequence.ts [seed]`.
+
+// --- Configuration ---
+const ROUNDS = 20;            // Independent randomized scenarios
+const OPS_PER_ROUND = 40;     // Edits generated per scenario
+const ORDERS_PER_ROUND = 6;   // Delivery orders replayed per scenario
+const ACTORS = ['Alpha', 'Beta', 'Gamma'];
+const TEXT: Path = ['body'];
+const LIST: Path = ['items'];
+
+// --- Seeded PRNG, so a failing seed can be replayed ---
+function createRandom(seed: number): () => number {
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+/** A replica whose local operations are recorded as they are made, rather than read back from the coalescing queue. */
+function createReplica(actorId: string): { actorId: string; doc: CollabDoc; made: Operation[] } {
+    // Never connected: operations are fed in directly, as if they had arrived from the server.
+    const doc = new CollabDoc({ roomId: 'sequence', actorId, serverUrl: 'http://localhost:0' });
+    const made: Operation[] = [];
+    doc.on('localOperation', ({ op }) => made.push(op));
+    return { actorId, doc, made };
+}
+
+function deliver(doc: CollabDoc, op: Operation) {
+    (doc as any).applyOperation(op, true);
+}
+
+/** Hands each replica's operations made so far to the others. */
+function exchange(replicas: { doc: CollabDoc; made: Operation[] }[]) {
+    const operations = replicas.map(({ made }) => [...made]);
+    replicas.forEach(({ doc }, i) => operations.forEach((ops, j) => i !== j && ops.forEach((op) => deliver(doc, op))));
+}
+
+/** What the text, its formatting and the list look like, for comparing replicas. */
+function clientState(doc: CollabDoc): string {
+    return JSON.stringify({ text: doc.get(TEXT) ?? '', formats: doc.getTextFormats(TEXT).map(sorted), list: doc.get(LIST) ?? [] });
+}
+
+function serverState(room: RoomState): string {
+    const text = room.texts[JSON.stringify(TEXT)];
+    return JSON.stringify({ text: room.state.body ?? '', formats: text ? formatsFromSequence(text).map(sorted) : [], list: room.state.items ?? [] });
+}
+
+function sorted(attributes: object): object {
+    return Object.fromEntries(Object.entries(attributes).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function checkKnownOutcomes() {
+    // Alpha and Beta type a word each, key by key, at the start of the same text.
+    let replicas = [createReplica('Alpha'), createReplica('Beta')];
+    replicas[0].doc.insertText(TEXT, 0, 'Hi ');
+    exchange(replicas);
+    replicas.forEach((replica) => (replica.made.length = 0));
+    ['one', 'two'].forEach((word, i) => word.split('').forEach((char, j) => replicas[i].doc.insertText(TEXT, 3 + j, char)));
+    exchange(replicas);
+    const typed = replicas[0].doc.get(TEXT);
+    check((typed === 'Hi onetwo' || typed === 'Hi twoone') && replicas[1].doc.get(TEXT) === typed, `Words typed concurrently at the same place do not interleave (${typed})`);
+
+    // Alpha deletes a word while Beta types into it.
+    replicas = [createReplica('Alpha'), createReplica('Beta')];
+    replicas[0].doc.insertText(TEXT, 0, 'keep drop keep');
+    exchange(replicas);
+    replicas.forEach((replica) => (replica.made.length = 0));
+    replicas[0].doc.deleteText(TEXT, 5, 5);
+    replicas[1].doc.insertText(TEXT, 7, 'NEW');
+    exchange(replicas);
+    check(replicas.every(({ doc }) => doc.get(TEXT) === 'keep NEWkeep'), 'Text typed into a concurrently deleted range survives it');
+
+    // Alpha moves an item Beta removes, and both insert at the same index.
+    replicas = [createReplica('Alpha'), createReplica('Beta')];
+    replicas[0].doc.insertListItems(LIST, 0, ['a', 'b', 'c']);
+    exchange(replicas);
+    replicas.forEach((replica) => (replica.made.length = 0));
+    replicas[0].doc.moveListItem(LIST, 0, 2);
+    replicas[1].doc.removeListItems(LIST, 0);
+    replicas[0].doc.insertListItems(LIST, 1, ['x']);
+    replicas[1].doc.insertListItems(LIST, 1, ['y']);
+    exchange(replicas);
+    const list = replicas[0].doc.get(LIST) as string[];
+    check(!list.includes('a') && list.includes('x') && list.includes('y') && list.length === 4, `An item moved while it is removed stays removed, and concurrent inserts are both kept (${JSON.stringify(list)})`);
+    check(JSON.stringify(replicas[1].doc.get(LIST)) === JSON.stringify(list), 'Both replicas agree on the list');
+
+    // Alpha and Beta move the same item to different places.
+    replicas = [createReplica('Alpha'), createReplica('Beta')];
+    replicas[0].doc.insertListItems(LIST, 0, ['a', 'b', 'c', 'd']);
+    exchange(replicas);
+    replicas.forEach((replica) => (replica.made.length = 0));
+    replicas[0].doc.moveListItem(LIST, 0, 2);
+    replicas[1].doc.moveListItem(LIST, 0, 4);
+    exchange(replicas);
+    const moved = replicas[0].doc.get(LIST) as string[];
+    check(moved.filter((item) => item === 'a').length === 1 && moved.length === 4 && JSON.stringify(replicas[1].doc.get(LIST)) === JSON.stringify(moved), `An item moved concurrently to two places ends up in one (${JSON.stringify(moved)})`);
+}
+
+interface GeneratedOperation {
+    op: Operation;
+    /** Indexes of the operations its author had applied when making it. */
+    after: number[];
+}
+
+/** Has actors edit the text and the list concurrently, each seeing only some of the others' operations. */
+function generateOperations(random: () => number): GeneratedOperation[] {
+    const actors = ACTORS.map((actorId) => ({ ...createReplica(actorId), seen: new Set<number>() }));
+    const all: GeneratedOperation[] = [];
+    for (let i = 0; i < OPS_PER_ROUND; i++) {
+        const actor = pick(random, actors);
+        if (random() < 0.3) {
+            all.forEach((generated, index) => {
+                if (!actor.seen.has(index)) {
+                    if (generated.op.actorId !== actor.actorId) {
+                        deliver(actor.doc, generated.op);
+                    }
+                    actor.seen.add(index);
+                }
+            });
+        }
+        const made = actor.made.length;
+        const text = String(actor.doc.get(TEXT) ?? '');
+        const list = (actor.doc.get(LIST) ?? []) as unknown[];
+        const choice = random();
+        if (choice < 0.3 || text.length === 0) {
+            actor.doc.insertText(TEXT, Math.floor(random() * (text.length + 1)), `${actor.actorId[0]}${i}`);
+        } else if (choice < 0.45) {
+            actor.doc.deleteText(TEXT, Math.floor(random() * text.length), 1 + Math.floor(random() * 3));
+        } else if (choice < 0.6) {
+            const attributes = random() < 0.5 ? { bold: random() < 0.7 ? true : null } : { color: pick(random, ['red', 'blue', null]) };
+            actor.doc.formatText(TEXT, Math.floor(random() * text.length), 1 + Math.floor(random() * 4), attributes);
+        } else if (choice < 0.75 || list.length === 0) {
+            actor.doc.insertListItems(LIST, Math.floor(random() * (list.length + 1)), [`${actor.actorId[0]}${i}`]);
+        } else if (choice < 0.87) {
+            actor.doc.removeListItems(LIST, Math.floor(random() * list.length));
+        } else {
+            actor.doc.moveListItem(LIST, Math.floor(random() * list.length), Math.floor(random() * (list.length + 1)));
+        }
+        for (const op of actor.made.slice(made)) {
+            all.push({ op, after: [...actor.seen] });
+            actor.seen.add(all.length - 1);
+        }
+    }
+    return all;
+}
+
+/** A random delivery order in which every operation comes after those its author had applied. */
+function causalOrder(random: () => number, operations: GeneratedOperation[]): Operation[] {
+    const delivered = new Set<number>();
+    const order: Operation[] = [];
+    while (order.length < operations.length) {
+        const ready = operations
+            .map((generated, index) => index)
+            .filter((index) => !delivered.has(index) && operations[index].after.every((before) => delivered.has(before)));
+        const next = pick(random, ready);
+        delivered.add(next);
+        order.push(operations[next].op);
+    }
+    return order;
+}
+
+function runSequenceTest(seed: number) {
+    log(`--- Starting CollabDoc Sequence Test (seed ${seed}) ---`);
+    // Replica logs are noise here; only the outcome matters.
+    quiet();
+    checkKnownOutcomes();
+
+    const random = createRandom(seed);
+    for (let round = 0; round < ROUNDS; round++) {
+        const operations = generateOperations(random);
+        const results = new Set<string>();
+        for (let order = 0; order < ORDERS_PER_ROUND; order++) {
+            const delivery = order === 0 ? operations.map(({ op }) => op) : causalOrder(random, operations);
+            const replica = createReplica(`Observer${order}`);
+            delivery.forEach((op) => deliver(replica.doc, op));
+            results.add(clientState(replica.doc));
+
+            const room = createRoomState();
+            delivery.forEach((op) => applyServerOperation(room, op));
+            results.add(serverState(room));
+        }
+        check(results.size === 1, `Round ${round} converged${results.size === 1 ? '' : ` only to ${results.size} different states: ${[...results].join(' | ')}`}`);
+    }
+
+    finish('CollabDoc Sequence Test');
+}
+
+const seedArgument = process.argv[2];
+runSequenceTest(seedArgument ? parseInt(seedArgument, 10) : Date.now());
@@ -0,0 +1,107 @@
+// sdk/test-transactions.ts
+import { UndoManager, SchemaValidationError } from './src/collab-doc';
+import type { JSONSchema } from './src/collab-doc';
+import { check, connectDoc, finish, log, quiet, sleep, startRoom, stop, synced } from './test-helpers';
+
+// Checks transactions: their operations reach peers all at once, and a transaction whose
+// callback throws partway, e.g. on a schema violation, is taken back: the document, its
+// text and list state, the outgoing queue and the undo history are as they were before,
+// and peers receive nothing. Concurrent transactions from two clients converge.
+// Run with `npx ts-node test-transactions.ts`.
+
+// --- Configuration ---
+const PORT = 8111;
+const ROOM_ID = 'transactions-test-document';
+
+const SCHEMA: JSONSchema = {
+    type: 'object',
+    properties: {
+        count: { type: 'number', maximum: 10 },
+    },
+};
+
+async function runTransactionsTest() {
+    log('--- Starting CollabDoc Transactions Test ---');
+    quiet();
+
+    const { node, serverUrl, alpha, beta } = await startRoom(PORT, ROOM_ID, { alpha: { schema: SCHEMA } });
+
+    alpha.set(['count'], 1);
+    alpha.insertText(['body'], 0, 'hello');
+    alpha.insertListItems(['tags'], 0, ['a', 'b']);
+    await sleep(200);
+
+    let betaChanges = 0;
+    beta.on('change', () => betaChanges++);
+    alpha.transact(() => {
+        alpha.set(['count'], 2);
+        alpha.insertText(['body'], 5, '!');
+    });
+    await sleep(200);
+    check(betaChanges === 1 && beta.get(['count']) === 2 && beta.get(['body']) === 'hello!', 'A transaction reaches a peer as one change');
+
+    const undoManager = new UndoManager(alpha);
+    alpha.set(['title'], 'kept');
+    undoManager.stopCapturing();
+    await sleep(200);
+    alpha.disconnect();
+    await sleep(100);
+    const before = JSON.stringify(alpha.getDocumentState());
+    const alphaChanges: unknown[] = [];
+    alpha.on('change', change => alphaChanges.push(change));
+    let thrown: unknown = null;
+    try {
+        alpha.transact(() => {
+            alpha.set(['title'], 'lost');
+            alpha.insertText(['body'], 0, 'Oh, ');
+            alpha.deleteText(['body'], 4, 2);
+            alpha.removeListItems(['tags'], 0);
+            alpha.insertListItems(['tags'], 1, ['c']);
+            alpha.set(['count'], 11);
+        });
+    } catch (e) {
+        thrown = e;
+    }
+    check(thrown instanceof SchemaValidationError, 'The error from inside the transaction is rethrown');
+    check(JSON.stringify(alpha.getDocumentState()) === before, 'A throwing transaction leaves the document as it was');
+    check(alpha.getOfflineQueue().length === 0, 'A throwing transaction leaves nothing to send');
+    check(alphaChanges.length === 0, 'A throwing transaction emits no change');
+    undoManager.undo();
+    check(alpha.get(['title']) === undefined && alpha.get(['body']) === 'hello!', 'The undo history skips the taken back transaction');
+
+    await synced(alpha);
+    await sleep(300);
+    check(beta.get(['title']) === undefined && beta.get(['body']) === 'hello!' && JSON.stringify(beta.get(['tags'])) === '["a","b"]', 'Peers receive nothing of a throwing transaction');
+
+    // The text and list state were taken back too, so later edits still merge with the peer's.
+    alpha.insertText(['body'], 6, ' world');
+    beta.insertText(['body'], 0, '>');
+    alpha.insertListItems(['tags'], 2, ['z']);
+    beta.removeListItems(['tags'], 0);
+    await sleep(300);
+    check(alpha.get(['body']) === '>hello! world' && beta.get(['body']) === alpha.get(['body']), 'Text edits after a taken back transaction converge');
+    check(JSON.stringify(alpha.get(['tags'])) === '["b","z"]' && JSON.stringify(beta.get(['tags'])) === '["b","z"]', 'List edits after a taken back transaction converge');
+
+    // Concurrent transactions over the same text, list and values, one nested in another.
+    alpha.transact(() => {
+        alpha.set(['count'], 3);
+        alpha.transact(() => alpha.insertText(['body'], 0, 'A'));
+        alpha.insertListItems(['tags'], 1, ['alpha']);
+    });
+    beta.transact(() => {
+        beta.set(['count'], 4);
+        beta.insertText(['body'], 0, 'B');
+        beta.removeListItems(['tags'], 0);
+    });
+    await sleep(300);
+    const reader = await connectDoc(serverUrl, ROOM_ID, 'Reader');
+    const stateOf = (doc: typeof alpha) => JSON.stringify([doc.get(['count']), doc.get(['body']), doc.get(['tags'])]);
+    check(stateOf(alpha) === stateOf(beta) && stateOf(reader) === stateOf(alpha), `Concurrent transactions converge on every replica (${stateOf(alpha)})`);
+    check(String(alpha.get(['body'])).endsWith('hello! world') && JSON.stringify(alpha.get(['tags'])) === '["alpha","z"]', 'Every operation of both transactions applies');
+
+    await stop([alpha, beta, reader], [node]);
+
+    finish('CollabDoc Transactions Test');
+}
+
+runTransactionsTest();
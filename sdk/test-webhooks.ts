@@ -0,0 +1,76 @@
+// sdk/test-webhooks.ts
+import http from 'http';
+import { ChangeEvent, verifyWebhook } from '../server/src/events';
+import { check, connectDoc, finish, log, quiet, sleep, startServer } from './test-helpers';
+
+// Starts a server whose change feed posts to a local HTTP stand-in, which fails its first
+// request to exercise retries and checks every signature. A client then joins, edits and
+// leaves, and the events must reach both the webhook and an in-process listener.
+// Run with `npx ts-node test-webhooks.ts`.
+
+// --- Configuration ---
+const SERVER_PORT = 8102;
+const RECEIVER_PORT = 8103;
+const ROOM_ID = 'webhook-test-document';
+const SECRET = 'webhook-test-secret';
+
+async function runWebhookTest() {
+    log('--- Starting CollabDoc Webhook Test ---');
+    quiet();
+
+    const received: ChangeEvent[] = [];
+    let requests = 0;
+    let badSignatures = 0;
+    const receiver = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => (body += chunk));
+        req.on('end', () => {
+            requests++;
+            const signature = req.headers['x-collabdoc-signature'];
+            const timestamp = req.headers['x-collabdoc-timestamp'];
+            if (typeof signature !== 'string' || typeof timestamp !== 'string' || !verifyWebhook(SECRET, timestamp, body, signature)) {
+                badSignatures++;
+            }
+            // The very first delivery fails, so it only arrives through a retry.
+            if (requests === 1) {
+                res.writeHead(503);
+                res.end();
+                return;
+            }
+            received.push(JSON.parse(body));
+            res.writeHead(204);
+            res.end();
+        });
+    });
+    receiver.listen(RECEIVER_PORT);
+
+    const node = startServer(SERVER_PORT, {
+        webhooks: [{ url: `http://localhost:${RECEIVER_PORT}/events`, secret: SECRET, retryDelayMs: 100 }],
+    });
+    const listened: ChangeEvent[] = [];
+    node.events.on(event => listened.push(event));
+
+    const doc = await connectDoc(`http://localhost:${SERVER_PORT}`, ROOM_ID, 'Alpha');
+    doc.set(['title'], 'Hello');
+    await sleep(200);
+    doc.disconnect();
+    await sleep(500);
+
+    const types = (events: ChangeEvent[]) => events.map(event => event.type).join(',');
+    const expected = 'room.created,client.joined,operation.applied,client.left';
+    check(types(listened) === expected, 'In-process listener receives room, join, operation and leave events in order');
+    // The retried event arrives after the others, so only compare which events arrived.
+    check(received.map(event => event.type).sort().join(',') === expected.split(',').sort().join(','), 'Webhook receives every event, including one that needed a retry');
+    check(requests === received.length + 1, 'The failed delivery was retried exactly once');
+    check(badSignatures === 0, 'Every webhook request carries a valid signature');
+    const applied = received.find(event => event.type === 'operation.applied');
+    check(applied?.type === 'operation.applied' && applied.seq === 1 && applied.operation.value === 'Hello', 'Operation events carry the operation and its sequence number');
+    check(!verifyWebhook(SECRET, String(Date.now()), '{}', 'sha256=forged'), 'A forged signature is refused');
+
+    await node.close();
+    receiver.close();
+
+    finish('CollabDoc Webhook Test');
+}
+
+runWebhookTest();
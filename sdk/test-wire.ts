@@ -0,0 +1,106 @@
+// sdk/test-wire.ts
+import { io } from 'socket.io-client';
+import { PROTOCOL_VERSION } from './src/collab-doc';
+import type { Operation } from './src/collab-doc';
+import { encodeOperations, decodeOperations } from './src/wire';
+import { check, connectDoc, finish, log, quiet, sleep, startServer, stop } from './test-helpers';
+
+// Checks the wire protocol: operations survive binary encoding unchanged, client and server
+// agree on a protocol version and features, a burst of typing is coalesced into one small
+// batch, a client from before the handshake keeps working next to one that uses batches, and
+// a client the server cannot serve is refused. Run with `npx ts-node test-wire.ts`.
+
+// --- Configuration ---
+const PORT = 8104;
+const ROOM_ID = 'wire-test-document';
+
+function checkRoundTrip() {
+    const operations: Operation[] = [
+        { id: 'Alpha-1712345678901-abc', path: ['title'], op: 'set', value: 'Héllo ✓', timestamp: 1712345678901, counter: 0, actorId: 'Alpha', version: 1 },
+        { id: 'Alpha-1712345678902-def', path: ['items', 3, 'price'], op: 'set', value: -12.5, timestamp: 1712345678902, counter: 2, actorId: 'Alpha', version: 7 },
+        { id: 'custom-id', path: ['nested'], op: 'set', value: { a: [1, null, true, false, { b: 'x' }], big: 2 ** 60, neg: -3 }, timestamp: 1712345678800, actorId: 'Beta', version: 2 },
+        { id: 'Beta-1', path: ['title'], op: 'del', timestamp: 1712345678903, actorId: 'Beta', version: 3 },
+        {
+            id: 'Alpha-tx', path: [], op: 'transaction',
+            value: [
+                { id: 'Alpha-tx-1', path: ['body'], op: 'text_insert', value: { origin: null, id: '1@Alpha', text: 'hi' }, timestamp: 1712345678904, counter: 1, actorId: 'Alpha', version: 1 },
+                { id: 'Alpha-tx-2', path: ['todo'], op: 'list_remove', value: { ids: ['1@Alpha', '2@Beta'] }, timestamp: 1712345678904, counter: 2, actorId: 'Alpha', version: 1 },
+            ],
+            timestamp: 1712345678904, actorId: 'Alpha', version: 1,
+        },
+    ];
+    const encoded = encodeOperations(operations);
+    const decoded = decodeOperations(encoded);
+    check(JSON.stringify(decoded) === JSON.stringify(operations), 'Operations survive binary encoding unchanged');
+    const jsonSize = operations.reduce((size, op) => size + JSON.stringify(op).length, 0);
+    check(encoded.length < jsonSize / 2, `Binary batch is less than half the size of the JSON messages (${encoded.length} vs ${jsonSize} bytes)`);
+
+    let refused = false;
+    try {
+        decodeOperations(encoded.subarray(0, encoded.length - 3));
+    } catch (e) {
+        refused = true;
+    }
+    check(refused, 'A truncated batch is refused');
+}
+
+async function runWireTest() {
+    log('--- Starting CollabDoc Wire Protocol Test ---');
+    checkRoundTrip();
+
+    quiet();
+
+    const node = startServer(PORT);
+
+    let batches = 0;
+    node.io.on('connection', socket => socket.on('operations', () => batches++));
+
+    // A client from before the handshake: JSON only, one operation per message.
+    const legacyOperations: Operation[] = [];
+    const legacy = io(`http://localhost:${PORT}`, { transports: ['websocket'] });
+    legacy.on('operation', (_roomId: string, op: Operation) => legacyOperations.push(op));
+    legacy.on('connect', () => legacy.emit('join_room', ROOM_ID));
+
+    const alpha = await connectDoc(`http://localhost:${PORT}`, ROOM_ID, 'Alpha', { batchDelayMs: 50 });
+    const beta = await connectDoc(`http://localhost:${PORT}`, ROOM_ID, 'Beta');
+
+    const protocol = alpha.getProtocol();
+    check(protocol?.version === PROTOCOL_VERSION && protocol.features.includes('binary_batches'), 'Client and server agree on the protocol version and binary batches');
+
+    // Typed one character at a time, all within one batch window.
+    const word = 'collaborate';
+    for (let i = 0; i < word.length; i++) {
+        alpha.insertText(['body'], i, word[i]);
+    }
+    alpha.set(['status'], 'draft');
+    alpha.set(['status'], 'typing');
+    alpha.set(['status'], 'done');
+    await sleep(300);
+
+    check(batches === 1, 'The burst of edits went out as a single batch');
+    check(beta.get(['body']) === word && beta.get(['status']) === 'done', 'A batching client receives the batch');
+    check(legacyOperations.length === 2, `A JSON-only client receives the coalesced operations one by one (${legacyOperations.length} messages)`);
+    check(legacyOperations[0]?.op === 'text_insert' && legacyOperations[0]?.value?.text === word, 'The keystrokes were merged into one text insert');
+
+    legacy.emit('operation', ROOM_ID, {
+        id: 'Legacy-1', path: ['from'], op: 'set', value: 'legacy', timestamp: Date.now(), counter: 0, actorId: 'Legacy', version: 1,
+    });
+    await sleep(300);
+    check(alpha.get(['from']) === 'legacy' && beta.get(['from']) === 'legacy', 'Operations from a JSON-only client reach batching clients');
+
+    // A client that only speaks a future version.
+    const future = io(`http://localhost:${PORT}`, {
+        transports: ['websocket'],
+        auth: { protocol: { version: PROTOCOL_VERSION + 1, minVersion: PROTOCOL_VERSION + 1, features: [] } },
+    });
+    const refusal = await new Promise<any>(resolve => future.on('connect_error', (err: Error & { data?: any }) => resolve(err.data)));
+    check(refusal?.code === 'protocol_unsupported', 'A client speaking only an unsupported version is refused with protocol_unsupported');
+    future.close();
+
+    legacy.disconnect();
+    await stop([alpha, beta], [node]);
+
+    finish('CollabDoc Wire Protocol Test');
+}
+
+runWireTest();
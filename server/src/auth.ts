@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+
+export type RoomAccess = 'none' | 'read' | 'write';
+
+/** The verified identity a socket is bound to for its whole connection. */
+export interface AuthIdentity {
+    actorId: string;
+    /** Per-room access granted by the token; `'*'` applies to every room not listed. Omitted means write access everywhere. */
+    rooms?: { [roomId: string]: RoomAccess };
+}
+
+/**
+ * Server-side authentication hooks. `authenticate` receives the token the client sent in
+ * the Socket.IO handshake and returns the identity it proves, or `null` to refuse the
+ * connection. `authorizeRoom` decides what that identity may do in a room.
+ */
+export interface AuthHooks {
+    /** When false, connections without a token are accepted and operations are not bound to an actor. */
+    required: boolean;
+    authenticate(token: string | undefined): Promise<AuthIdentity | null>;
+    authorizeRoom(identity: AuthIdentity | null, roomId: string): Promise<RoomAccess>;
+}
+
+/** Default when no `AUTH_SECRET` is configured: anyone may join and write to any room. */
+export const allowAllAuthHooks: AuthHooks = {
+    required: false,
+    async authenticate() {
+        return null;
+    },
+    async authorizeRoom() {
+        return 'write';
+    },
+};
+
+interface TokenPayload extends AuthIdentity {
+    /** Expiry as seconds since the epoch. */
+    exp?: number;
+}
+
+/**
+ * Tokens of the form `<base64url(JSON payload)>.<base64url(HMAC-SHA256 signature)>`, signed
+ * with a secret shared with the backend that issues them (see `signToken`).
+ */
+export function createHmacAuthHooks(secret: string): AuthHooks {
+    return {
+        required: true,
+        async authenticate(token) {
+            if (!token) {
+                return null;
+            }
+            const [encodedPayload, signature] = token.split('.');
+            if (!encodedPayload || !signature) {
+                return null;
+            }
+            const expected = Buffer.from(sign(secret, encodedPayload));
+            const actual = Buffer.from(signature);
+            if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+                return null;
+            }
+            let payload: TokenPayload;
+            try {
+                payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+            } catch (e) {
+                return null;
+            }
+            if (typeof payload.actorId !== 'string' || !payload.actorId) {
+                return null;
+            }
+            if (payload.exp !== undefined && payload.exp * 1000 < Date.now()) {
+                return null;
+            }
+            return { actorId: payload.actorId, rooms: payload.rooms };
+        },
+        async authorizeRoom(identity, roomId) {
+            if (!identity) {
+                return 'none';
+            }
+            if (!identity.rooms) {
+                return 'write';
+            }
+            return identity.rooms[roomId] ?? identity.rooms['*'] ?? 'none';
+        },
+    };
+}
+
+/** Issues a token accepted by `createHmacAuthHooks(secret)`. */
+export function signToken(secret: string, payload: TokenPayload): string {
+    const encodedPayload = Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+    return `${encodedPayload}.${sign(secret, encodedPayload)}`;
+}
+
+function sign(secret: string, data: string): string {
+    return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
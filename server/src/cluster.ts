@@ -0,0 +1,137 @@
+import crypto from 'crypto';
+
+/**
+ * Connects the server nodes of one deployment. Every room is owned by a single node at a
+ * time, which applies and numbers its operations; the other nodes forward requests to it
+ * and relay its broadcasts to their own clients. A production deployment backs this with a
+ * shared broker such as Redis (pub/sub for messages, `SET NX PX` for ownership claims).
+ */
+export interface ClusterAdapter {
+    /** Unique id of this node within the cluster. */
+    readonly nodeId: string;
+    /**
+     * Delivers `message` to every handler subscribed to `channel`, on any node including this
+     * one. Messages published by one node must reach each subscriber in the order they were
+     * published, across all channels.
+     */
+    publish(channel: string, message: unknown): Promise<void>;
+    /** Calls `handler` for every message published to `channel` from now on. */
+    subscribe(channel: string, handler: (message: any) => void): Promise<void>;
+    unsubscribe(channel: string): Promise<void>;
+    /**
+     * Claims `roomId` for this node unless another node holds an unexpired claim, and resolves
+     * to the id of the node that owns it. Claiming a room this node already owns renews the
+     * claim for another `ttlMs`.
+     */
+    claimRoom(roomId: string, ttlMs: number): Promise<string>;
+    /** Gives up this node's claim on `roomId`, if it has one. */
+    releaseRoom(roomId: string): Promise<void>;
+    /** Unsubscribes from everything; claims are left to expire. */
+    close(): Promise<void>;
+}
+
+/**
+ * Stand-in for a shared broker when every node runs in the same process, e.g. a single
+ * server or several servers started by a test. Messages are delivered asynchronously, in
+ * publish order, just as a real broker would.
+ */
+export class InProcessBroker {
+    private subscribers: Map<string, Map<string, (message: any) => void>> = new Map();
+    private owners: Map<string, { nodeId: string; expiresAt: number }> = new Map();
+    private pending: (() => void)[] = [];
+    private flushScheduled = false;
+
+    /** An adapter for one node; every call gets a new node id unless one is given. */
+    connect(nodeId: string = crypto.randomUUID()): ClusterAdapter {
+        return new InProcessClusterAdapter(this, nodeId);
+    }
+
+    publish(channel: string, message: unknown): void {
+        // Copied like a real broker would serialize it, so nodes never share objects.
+        const copy = JSON.stringify(message);
+        const handlers = [...(this.subscribers.get(channel)?.values() ?? [])];
+        handlers.forEach((handler) => this.pending.push(() => handler(JSON.parse(copy))));
+        if (!this.flushScheduled && this.pending.length > 0) {
+            this.flushScheduled = true;
+            setImmediate(() => this.flush());
+        }
+    }
+
+    subscribe(channel: string, nodeId: string, handler: (message: any) => void): void {
+        let handlers = this.subscribers.get(channel);
+        if (!handlers) {
+            handlers = new Map();
+            this.subscribers.set(channel, handlers);
+        }
+        handlers.set(nodeId, handler);
+    }
+
+    unsubscribe(channel: string, nodeId: string): void {
+        const handlers = this.subscribers.get(channel);
+        handlers?.delete(nodeId);
+        if (handlers?.size === 0) {
+            this.subscribers.delete(channel);
+        }
+    }
+
+    unsubscribeAll(nodeId: string): void {
+        [...this.subscribers.keys()].forEach((channel) => this.unsubscribe(channel, nodeId));
+    }
+
+    claimRoom(roomId: string, nodeId: string, ttlMs: number): string {
+        const now = Date.now();
+        const owner = this.owners.get(roomId);
+        if (!owner || owner.expiresAt <= now || owner.nodeId === nodeId) {
+            this.owners.set(roomId, { nodeId, expiresAt: now + ttlMs });
+            return nodeId;
+        }
+        return owner.nodeId;
+    }
+
+    releaseRoom(roomId: string, nodeId: string): void {
+        if (this.owners.get(roomId)?.nodeId === nodeId) {
+            this.owners.delete(roomId);
+        }
+    }
+
+    private flush(): void {
+        this.flushScheduled = false;
+        const batch = this.pending;
+        this.pending = [];
+        batch.forEach((deliver) => {
+            try {
+                deliver();
+            } catch (error) {
+                console.error('Cluster: Error in message handler:', error);
+            }
+        });
+    }
+}
+
+class InProcessClusterAdapter implements ClusterAdapter {
+    constructor(private broker: InProcessBroker, public readonly nodeId: string) {}
+
+    async publish(channel: string, message: unknown): Promise<void> {
+        this.broker.publish(channel, message);
+    }
+
+    async subscribe(channel: string, handler: (message: any) => void): Promise<void> {
+        this.broker.subscribe(channel, this.nodeId, handler);
+    }
+
+    async unsubscribe(channel: string): Promise<void> {
+        this.broker.unsubscribe(channel, this.nodeId);
+    }
+
+    async claimRoom(roomId: string, ttlMs: number): Promise<string> {
+        return this.broker.claimRoom(roomId, this.nodeId, ttlMs);
+    }
+
+    async releaseRoom(roomId: string): Promise<void> {
+        this.broker.releaseRoom(roomId, this.nodeId);
+    }
+
+    async close(): Promise<void> {
+        this.broker.unsubscribeAll(this.nodeId);
+    }
+}
@@ -0,0 +1,154 @@
+import crypto from 'crypto';
+import { Operation } from './room';
+
+interface EventBase {
+    /** Unique per event; a webhook retried after a failure keeps the same id. */
+    id: string;
+    roomId: string;
+    /** Milliseconds since the epoch, on the node that emitted the event. */
+    timestamp: number;
+}
+
+/**
+ * Something that happened to a room. Events are emitted by the node owning the room, so
+ * each happens once per cluster; within a room they are emitted in order.
+ */
+export type ChangeEvent =
+    /** A room with nothing in storage was loaded. Emitted again if it is reloaded before anything is written to it. */
+    | (EventBase & { type: 'room.created' })
+    | (EventBase & { type: 'operation.applied'; seq: number; operation: Operation })
+    | (EventBase & { type: 'client.joined'; socketId: string; actorId: string | null })
+    | (EventBase & { type: 'client.left'; socketId: string; actorId: string | null });
+
+export type ChangeEventType = ChangeEvent['type'];
+
+export type ChangeListener = (event: ChangeEvent) => void;
+
+/** Distributes a type over the union, so `Omit` keeps each event's own fields. */
+type DistributiveOmit<T, K extends keyof any> = T extends unknown ? Omit<T, K> : never;
+
+export interface WebhookOptions {
+    url: string;
+    /** Signs every request (see `signWebhook`) so the receiver can check it came from this server. */
+    secret?: string;
+    /** Event types to deliver; all of them when omitted. */
+    events?: ChangeEventType[];
+    /** Attempts per event before it is dropped. Defaults to 5. */
+    maxAttempts?: number;
+    /** Wait before the first retry, doubled for each one after it. Defaults to 1 second. */
+    retryDelayMs?: number;
+    /** How long one attempt may take. Defaults to 10 seconds. */
+    timeoutMs?: number;
+}
+
+/**
+ * Publishes room events to in-process listeners and webhooks. Each webhook receives every
+ * event as its own `POST` of the event's JSON; a failed attempt (network error, timeout,
+ * `429` or `5xx`) is retried with exponential backoff, while other responses are final.
+ * Retries can reorder a webhook's events, so receivers should order operations by `seq`.
+ */
+export class ChangeFeed {
+    private listeners: Set<ChangeListener> = new Set();
+    private retries: Set<NodeJS.Timeout> = new Set();
+    private aborter = new AbortController();
+
+    constructor(private webhooks: WebhookOptions[] = []) {}
+
+    /** Calls `listener` with every event from now on; returns a function that stops it. */
+    on(listener: ChangeListener): () => void {
+        this.listeners.add(listener);
+        return () => {
+            this.listeners.delete(listener);
+        };
+    }
+
+    emit(fields: DistributiveOmit<ChangeEvent, 'id' | 'timestamp'>): void {
+        const event = { ...fields, id: crypto.randomUUID(), timestamp: Date.now() } as ChangeEvent;
+        this.listeners.forEach((listener) => {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`Change feed: Error in ${event.type} listener:`, error);
+            }
+        });
+        for (const webhook of this.webhooks) {
+            if (!webhook.events || webhook.events.includes(event.type)) {
+                this.deliver(webhook, event, 1);
+            }
+        }
+    }
+
+    /** Stops pending retries and aborts deliveries in flight. */
+    close(): void {
+        this.retries.forEach((timer) => clearTimeout(timer));
+        this.retries.clear();
+        this.aborter.abort();
+    }
+
+    private deliver(webhook: WebhookOptions, event: ChangeEvent, attempt: number): void {
+        if (this.aborter.signal.aborted) {
+            return;
+        }
+        const body = JSON.stringify(event);
+        const timestamp = String(Date.now());
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            'X-CollabDoc-Event': event.type,
+            'X-CollabDoc-Delivery': event.id,
+            'X-CollabDoc-Timestamp': timestamp,
+        };
+        if (webhook.secret) {
+            headers['X-CollabDoc-Signature'] = signWebhook(webhook.secret, timestamp, body);
+        }
+        const signal = AbortSignal.any([this.aborter.signal, AbortSignal.timeout(webhook.timeoutMs ?? 10000)]);
+        fetch(webhook.url, { method: 'POST', headers, body, signal }).then((response) => {
+            if (response.ok) {
+                return;
+            }
+            const retryable = response.status === 429 || response.status >= 500;
+            this.retry(webhook, event, attempt, `status ${response.status}`, retryable);
+        }, (error) => {
+            this.retry(webhook, event, attempt, error instanceof Error ? error.message : String(error), true);
+        });
+    }
+
+    private retry(webhook: WebhookOptions, event: ChangeEvent, attempt: number, reason: string, retryable: boolean): void {
+        if (this.aborter.signal.aborted) {
+            return;
+        }
+        const maxAttempts = webhook.maxAttempts ?? 5;
+        if (!retryable || attempt >= maxAttempts) {
+            console.error(`Change feed: Dropped ${event.type} event ${event.id} for ${webhook.url} after ${attempt} attempts (${reason})`);
+            return;
+        }
+        const delay = (webhook.retryDelayMs ?? 1000) * 2 ** (attempt - 1);
+        console.warn(`Change feed: Delivering ${event.type} event ${event.id} to ${webhook.url} failed (${reason}); retrying in ${delay}ms`);
+        const timer = setTimeout(() => {
+            this.retries.delete(timer);
+            this.deliver(webhook, event, attempt + 1);
+        }, delay);
+        this.retries.add(timer);
+    }
+}
+
+/**
+ * The `X-CollabDoc-Signature` header for a webhook request: `sha256=` and the hex HMAC-SHA256
+ * of `<X-CollabDoc-Timestamp>.<raw body>`.
+ */
+export function signWebhook(secret: string, timestamp: string, body: string): string {
+    return `sha256=${crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Checks a webhook request's signature, for receivers written in TypeScript. Requests with
+ * a timestamp more than `toleranceMs` away from now are refused, so a captured request
+ * cannot be replayed later.
+ */
+export function verifyWebhook(secret: string, timestamp: string, body: string, signature: string, toleranceMs: number = 5 * 60 * 1000): boolean {
+    if (!(Math.abs(Date.now() - Number(timestamp)) <= toleranceMs)) {
+        return false;
+    }
+    const expected = Buffer.from(signWebhook(secret, timestamp, body));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
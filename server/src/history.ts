@@ -0,0 +1,208 @@
+import crypto from 'crypto';
+import { Operation, Path, RoomState, applyOperation, createRoomClock, createRoomState } from './room';
+import {
+    SequenceState,
+    TextAttributes,
+    TextDeletePayload,
+    TextFormatPayload,
+    TextInsertPayload,
+    ListState,
+    ListInsertPayload,
+    ListRemovePayload,
+    createSequence,
+    createList,
+    makeSequenceId,
+    nextSequenceCounter,
+    visibleNodes,
+    originForIndex,
+    applyTextInsert,
+    applyTextDelete,
+    textFromSequence,
+    formatsFromSequence,
+    listEntries,
+    listOriginForIndex,
+    applyListRemove,
+    valuesFromList,
+} from './sequence';
+import { StorageAdapter } from './storage';
+import { MergeStrategies } from './merge';
+import { RequestError } from './http';
+
+/**
+ * The room as it was right after operation `seq`. Starts from the latest named snapshot at
+ * or before it, when there is one, and replays the history from there.
+ */
+export async function roomAtVersion(storage: StorageAdapter, roomId: string, seq: number, strategies?: MergeStrategies): Promise<RoomState> {
+    const base = (await storage.listNamedSnapshots(roomId))
+        .filter((snapshot) => snapshot.seq <= seq)
+        .sort((a, b) => b.seq - a.seq)[0];
+    const room = (base && await storage.loadNamedSnapshot(roomId, base.id)) || createRoomState();
+    const history = await storage.readHistory(roomId, room.seq, seq);
+    for (const entry of history) {
+        if (entry.seq !== room.seq + 1) {
+            // Operations from before history was recorded, or lost from storage.
+            throw new RequestError(404, 'version_unavailable', `History of room ${roomId} is incomplete before version ${entry.seq}`);
+        }
+        applyOperation(room, entry.operation, strategies);
+        room.seq = entry.seq;
+    }
+    if (room.seq !== seq) {
+        throw new RequestError(404, 'version_not_found', `Room ${roomId} has no version ${seq}`);
+    }
+    return room;
+}
+
+/**
+ * A transaction that turns `room`'s document into `target`'s: every top-level field that
+ * differs is set to its old value or deleted. Fields holding collaborative text or lists are
+ * followed down to them instead, and those are edited back into shape with text and list
+ * operations, formatting included, so they stay collaborative and edits clients make to them
+ * meanwhile still apply. It is stamped after every write the room has seen, so it wins over
+ * them like any new edit, and later edits win over it in turn.
+ */
+export function createRestoreOperation(room: RoomState, target: RoomState, actorId: string): Operation | null {
+    const clock = createRoomClock(room);
+    const sequencePaths = [room.texts, room.lists, target.texts, target.lists]
+        .flatMap((store) => Object.keys(store).map((pathKey) => JSON.parse(pathKey) as Path));
+
+    const changes: Operation[] = [];
+    const change = (path: Path, op: Operation['op'], value?: any) => {
+        const operation: Operation = {
+            id: crypto.randomUUID(),
+            path,
+            op,
+            ...clock.now(),
+            actorId,
+            version: (room.metadata[JSON.stringify(path)]?.version ?? 0) + 1,
+        };
+        if (value !== undefined) {
+            operation.value = value;
+        }
+        changes.push(operation);
+        return operation;
+    };
+
+    const restore = (path: Path, current: any, restored: any) => {
+        const pathKey = JSON.stringify(path);
+        if (target.texts[pathKey] && typeof restored === 'string') {
+            restoreText(room, path, current, target.texts[pathKey], actorId, change);
+        } else if (target.lists[pathKey] && Array.isArray(restored)) {
+            restoreList(room, path, current, restored, actorId, change);
+        } else if (JSON.stringify(current) === JSON.stringify(restored)) {
+            return;
+        } else if (isPlainObject(current) && isPlainObject(restored) && sequencePaths.some((other) => isBelow(path, other))) {
+            new Set([...Object.keys(current), ...Object.keys(restored)]).forEach((key) => restore([...path, key], current[key], restored[key]));
+        } else {
+            change(path, restored === undefined ? 'del' : 'set', restored);
+        }
+    };
+    new Set([...Object.keys(room.state), ...Object.keys(target.state)]).forEach((key) => restore([key], room.state[key], target.state[key]));
+
+    if (changes.length === 0) {
+        return null;
+    }
+    return { id: crypto.randomUUID(), path: [], op: 'transaction', value: changes, ...clock.now(), actorId, version: 0 };
+}
+
+type Change = (path: Path, op: Operation['op'], value?: any) => Operation;
+
+/**
+ * Edits the text at `path` into `restored`'s characters and formatting. A text that is not
+ * collaborative yet is written as a plain string first, which every replica seeds alike.
+ */
+function restoreText(room: RoomState, path: Path, current: any, restored: SequenceState<string>, actorId: string, change: Change) {
+    const wanted = textFromSequence(restored);
+    const existing = room.texts[JSON.stringify(path)];
+    let state: SequenceState<string>;
+    if (existing || typeof current === 'string') {
+        state = JSON.parse(JSON.stringify(existing ?? createSequence(current.split(''))));
+        const { start, removed, inserted } = changedRange(textFromSequence(state).split(''), wanted.split(''));
+        if (removed > 0) {
+            const payload: TextDeletePayload = { ids: visibleNodes(state).slice(start, start + removed).map((node) => node.id) };
+            change(path, 'text_delete', payload);
+            applyTextDelete(state, payload);
+        }
+        if (inserted.length > 0) {
+            const payload: TextInsertPayload = {
+                origin: originForIndex(state, start),
+                id: makeSequenceId(nextSequenceCounter(state), actorId),
+                text: inserted.join(''),
+            };
+            change(path, 'text_insert', payload);
+            applyTextInsert(state, payload);
+        }
+    } else {
+        change(path, 'set', wanted);
+        state = createSequence(wanted.split(''));
+    }
+
+    // Per character, what to set to reach the wanted formatting, `null` removing what it should not have.
+    const have = formatsFromSequence(state);
+    const nodes = visibleNodes(state);
+    const fixes = formatsFromSequence(restored).map((format, i) => {
+        const attributes: TextAttributes = {};
+        Object.keys(have[i]).filter((name) => !(name in format)).forEach((name) => { attributes[name] = null; });
+        Object.entries(format)
+            .filter(([name, value]) => JSON.stringify(have[i][name]) !== JSON.stringify(value))
+            .forEach(([name, value]) => { attributes[name] = value; });
+        return attributes;
+    });
+    let first = 0;
+    for (let i = 1; i <= fixes.length; i++) {
+        if (i < fixes.length && JSON.stringify(fixes[i]) === JSON.stringify(fixes[first])) {
+            continue;
+        }
+        if (Object.keys(fixes[first]).length > 0) {
+            const payload: TextFormatPayload = { start: nodes[first].id, end: nodes[i - 1].id, attributes: fixes[first] };
+            change(path, 'text_format', payload);
+        }
+        first = i;
+    }
+}
+
+/** Edits the list at `path` into `restored`, or writes it as a plain array when it is not collaborative yet. */
+function restoreList(room: RoomState, path: Path, current: any, restored: any[], actorId: string, change: Change) {
+    const existing = room.lists[JSON.stringify(path)];
+    if (!existing && !Array.isArray(current)) {
+        change(path, 'set', restored);
+        return;
+    }
+    const state: ListState = JSON.parse(JSON.stringify(existing ?? createList(current)));
+    const values = valuesFromList(state);
+    const { start, removed, inserted } = changedRange(values.map((value) => JSON.stringify(value)), restored.map((value) => JSON.stringify(value)));
+    if (removed > 0) {
+        const payload: ListRemovePayload = { ids: listEntries(state).slice(start, start + removed).map((entry) => entry.id) };
+        change(path, 'list_remove', payload);
+        applyListRemove(state, payload);
+    }
+    if (inserted.length > 0) {
+        const payload: ListInsertPayload = {
+            origin: listOriginForIndex(state, start),
+            id: makeSequenceId(nextSequenceCounter(state.slots), actorId),
+            values: inserted.map((value) => JSON.parse(value)),
+        };
+        change(path, 'list_insert', payload);
+    }
+}
+
+/** The range where `from` and `to` differ: what is removed from `from` at `start` and inserted in its place. */
+function changedRange<V>(from: V[], to: V[]): { start: number; removed: number; inserted: V[] } {
+    let start = 0;
+    while (start < from.length && start < to.length && from[start] === to[start]) {
+        start++;
+    }
+    let end = 0;
+    while (end < from.length - start && end < to.length - start && from[from.length - 1 - end] === to[to.length - 1 - end]) {
+        end++;
+    }
+    return { start, removed: from.length - start - end, inserted: to.slice(start, to.length - end) };
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+/** True when `path` is `ancestor` itself or lies below it. */
+function isBelow(ancestor: Path, path: Path): boolean {
+    return ancestor.length <= path.length && ancestor.every((segment, i) => path[i] === segment);
+}
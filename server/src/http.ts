@@ -0,0 +1,81 @@
+import http from 'http';
+
+/**
+ * A failed HTTP request, answered with `status` and a `{ code, message }` body like socket
+ * errors; `details` are added to the body.
+ */
+export class RequestError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: string,
+        message: string,
+        public readonly details?: Record<string, any>
+    ) {
+        super(message);
+        this.name = 'RequestError';
+    }
+}
+
+/** Largest request body accepted, in bytes. */
+const MAX_BODY_BYTES = 1024 * 1024;
+
+export function readJsonBody(req: http.IncomingMessage): Promise<any> {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new RequestError(413, 'payload_too_large', `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => {
+            const body = Buffer.concat(chunks).toString('utf8');
+            if (!body.trim()) {
+                resolve({});
+                return;
+            }
+            try {
+                resolve(JSON.parse(body));
+            } catch (e) {
+                reject(new RequestError(400, 'invalid_json', 'Request body is not valid JSON'));
+            }
+        });
+        req.on('error', reject);
+    });
+}
+
+export function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    res.end(JSON.stringify(body));
+}
+
+/** Adds CORS headers for `origin` when it is allowed; answers preflight requests and returns true for them. */
+export function handleCors(req: http.IncomingMessage, res: http.ServerResponse, allowed: string | string[]): boolean {
+    const origin = req.headers.origin;
+    if (allowed === '*') {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+    } else if (origin && allowed.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+    }
+    if (req.method !== 'OPTIONS') {
+        return false;
+    }
+    res.writeHead(204, {
+        'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+        'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+        'Access-Control-Max-Age': '600',
+    });
+    res.end();
+    return true;
+}
+
+/** The token from an `Authorization: Bearer <token>` header. */
+export function bearerToken(req: http.IncomingMessage): string | undefined {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    return match ? match[1].trim() : undefined;
+}
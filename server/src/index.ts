@@ -1,5 +1,10 @@
-import { Server } from 'socket.io';
-import http from 'http';
+import fs from 'fs';
+import { createCollabServer } from './server';
+import { FileStorageAdapter, MemoryStorageAdapter, StorageAdapter } from './storage';
+import { AuthHooks, allowAllAuthHooks, createHmacAuthHooks } from './auth';
+import { JSONSchema } from './schema';
+import { MergeStrategies } from './merge';
+import { ChangeEventType, WebhookOptions } from './events';
 
 const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : 8080;
 
@@ -12,105 +17,72 @@ function getCorsOrigin(): string | string[] {
     return raw.split(',').map((s) => s.trim()).filter(Boolean);
 }
 
-const roomStates: Map<string, any> = new Map();
-const roomMetadata: Map<string, { [path: string]: { timestamp: number; actorId: string; version: number } }> = new Map();
-
-const httpServer = http.createServer((req, res) => {
-    const path = req.url?.split('?')[0] ?? '/';
-
-    if (path === '/health' || path === '/healthz') {
-        res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
-        res.end(JSON.stringify({ status: 'ok', service: 'collab-server' }));
-        return;
-    }
-
-    res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
-    res.end('CollabDoc Socket.IO Server\n');
-});
-
-const io = new Server(httpServer, {
-    cors: {
-        origin: getCorsOrigin(),
-        methods: ['GET', 'POST'],
-    },
-});
-
-io.on('connection', (socket) => {
-    console.log(`Client connected: ${socket.id}`);
-
-    socket.on('join_room', (roomId: string) => {
-        socket.join(roomId);
-        console.log(`${socket.id} joined room: ${roomId}`);
-
-        if (!roomStates.has(roomId)) {
-            roomStates.set(roomId, {}); 
-        }
-        if (!roomMetadata.has(roomId)) {
-            roomMetadata.set(roomId, {}); 
-        }
-
-        const currentDocState = roomStates.get(roomId);
-        const currentMetadata = roomMetadata.get(roomId);
-
-        socket.emit('initial_state', currentDocState, currentMetadata);  
-        console.log(`Sent initial state for room ${roomId} to ${socket.id}. Doc:`, currentDocState, 'Metadata:', currentMetadata);
-    });
-
-    socket.on('operation', (roomId: string, operation: any) => {
-        console.log(`Received operation in room ${roomId} from ${socket.id}:`, operation);
-
-        const currentRoomState = roomStates.get(roomId) || {};
-        const currentRoomMetadata = roomMetadata.get(roomId) || {}; 
-        const path = operation.path;
-        const opType = operation.op;
-        const value = operation.value;
-
-        let applyServerOp = true;
-        const pathKey = JSON.stringify(path);
-        const existingMetadata = currentRoomMetadata[pathKey];
-
-        if (existingMetadata) {
-            const incomingWinsByTimestamp = operation.timestamp > existingMetadata.timestamp;
-            const timestampsAreEqual = operation.timestamp === existingMetadata.timestamp;
-            const incomingWinsByActorId = timestampsAreEqual && operation.actorId < existingMetadata.actorId; // Tie-breaker
-
-            if (!incomingWinsByTimestamp && !incomingWinsByActorId) {
-                applyServerOp = false;
-                console.log(`Server: Operation not applied due to LWW conflict (existing value wins).`);
-            }
-        }
-
-        if (applyServerOp) {
-            if (opType === 'set') {
-                deepSet(currentRoomState, path, value);
-            } else if (opType === 'del') {
-                deepDelete(currentRoomState, path);
-            }
-            roomStates.set(roomId, currentRoomState); 
-
-
-            if (opType === 'del') {
-                delete currentRoomMetadata[pathKey];
-            } else {
-                currentRoomMetadata[pathKey] = {
-                    timestamp: operation.timestamp,
-                    actorId: operation.actorId,
-                    version: operation.version
-                };
-            }
-            roomMetadata.set(roomId, currentRoomMetadata); 
-        } 
-        io.to(roomId).emit('operation', roomId, operation);
-        console.log(`Broadcasted operation to room ${roomId}. Current Server State:`, currentRoomState, 'Current Server Metadata:', currentRoomMetadata);
-    });
-
-    socket.on('disconnect', () => {
-        console.log(`Client disconnected: ${socket.id}`);
-    });
-
-    socket.on('error', (error) => {
-        console.error(`Socket error for ${socket.id}: ${error}`);
-    });
+/** Directory for durable room storage. Without it rooms only live in memory and are lost on restart. */
+const STORAGE_DIR = process.env.STORAGE_DIR?.trim();
+/** Number of logged operations after which a room is compacted into a fresh snapshot. */
+const SNAPSHOT_INTERVAL = process.env.SNAPSHOT_INTERVAL ? parseInt(process.env.SNAPSHOT_INTERVAL, 10) : 100;
+/** Number of recent operations per room kept in memory for incremental catch-up on reconnect. */
+const LOG_RETENTION = process.env.LOG_RETENTION ? parseInt(process.env.LOG_RETENTION, 10) : 1000;
+
+/** Presence entries not refreshed within this window are dropped (clients heartbeat every 15s). */
+const AWARENESS_TIMEOUT_MS = process.env.AWARENESS_TIMEOUT_MS ? parseInt(process.env.AWARENESS_TIMEOUT_MS, 10) : 30000;
+
+/**
+ * How far ahead of the server's clock an operation's timestamp may be. Clients take their
+ * clock from the server on sync, so anything further ahead would win every conflict unfairly.
+ */
+const MAX_CLOCK_DRIFT_MS = process.env.MAX_CLOCK_DRIFT_MS ? parseInt(process.env.MAX_CLOCK_DRIFT_MS, 10) : 60000;
+
+/** Shared secret for verifying client tokens. Without it the server accepts anonymous clients. */
+const AUTH_SECRET = process.env.AUTH_SECRET?.trim();
+
+/**
+ * JSON file mapping room ids to the JSON Schema their documents must satisfy; `*` applies to
+ * every room not listed. Without it any well-formed operation is accepted.
+ */
+const SCHEMA_FILE = process.env.SCHEMA_FILE?.trim();
+
+/**
+ * JSON file mapping room ids to path patterns and the built-in merge strategy of the paths
+ * they match, e.g. `{ "*": { "posts.*.likes": "counter" } }`. Without it every path is last-writer-wins.
+ */
+const MERGE_STRATEGIES_FILE = process.env.MERGE_STRATEGIES_FILE?.trim();
+
+/** Comma-separated URLs that receive room events (room created, operation applied, client joined/left) as JSON `POST`s. */
+const WEBHOOK_URLS = process.env.WEBHOOK_URLS?.split(',').map((s) => s.trim()).filter(Boolean) ?? [];
+/** Secret the webhook requests are signed with (`X-CollabDoc-Signature`). */
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET?.trim();
+/** Comma-separated event types to deliver, e.g. `operation.applied`. Without it every event is delivered. */
+const WEBHOOK_EVENTS = process.env.WEBHOOK_EVENTS?.split(',').map((s) => s.trim()).filter(Boolean) as ChangeEventType[] | undefined;
+/** Delivery attempts per event before it is dropped, with exponential backoff between them. */
+const WEBHOOK_MAX_ATTEMPTS = process.env.WEBHOOK_MAX_ATTEMPTS ? parseInt(process.env.WEBHOOK_MAX_ATTEMPTS, 10) : 5;
+
+const auth: AuthHooks = AUTH_SECRET ? createHmacAuthHooks(AUTH_SECRET) : allowAllAuthHooks;
+const storage: StorageAdapter = STORAGE_DIR ? new FileStorageAdapter(STORAGE_DIR) : new MemoryStorageAdapter();
+
+const roomSchemas: { [roomId: string]: JSONSchema } = SCHEMA_FILE ? JSON.parse(fs.readFileSync(SCHEMA_FILE, 'utf8')) : {};
+const mergeStrategies: { [roomId: string]: MergeStrategies } = MERGE_STRATEGIES_FILE ? JSON.parse(fs.readFileSync(MERGE_STRATEGIES_FILE, 'utf8')) : {};
+
+const webhooks: WebhookOptions[] = WEBHOOK_URLS.map((url) => ({
+    url,
+    secret: WEBHOOK_SECRET,
+    events: WEBHOOK_EVENTS?.length ? WEBHOOK_EVENTS : undefined,
+    maxAttempts: WEBHOOK_MAX_ATTEMPTS,
+}));
+
+// A single node. Running several behind a load balancer takes a `ClusterAdapter` backed by a
+// shared broker and a storage adapter they all reach; see cluster.ts.
+const { httpServer } = createCollabServer({
+    corsOrigin: getCorsOrigin(),
+    storage,
+    auth,
+    roomSchemas,
+    mergeStrategies,
+    snapshotInterval: SNAPSHOT_INTERVAL,
+    logRetention: LOG_RETENTION,
+    awarenessTimeoutMs: AWARENESS_TIMEOUT_MS,
+    maxClockDriftMs: MAX_CLOCK_DRIFT_MS,
+    webhooks,
 });
 
 httpServer.listen(PORT, '0.0.0.0', () => {
@@ -118,34 +90,3 @@ httpServer.listen(PORT, '0.0.0.0', () => {
         `CollabDoc Socket.IO server listening on 0.0.0.0:${PORT} (health: GET /health)`
     );
 });
-
-function deepSet(obj: any, path: (string | number)[], value: any): void {
-    let current = obj;
-    for (let i = 0; i < path.length - 1; i++) {
-        const key = path[i];
-        if (!(key in current) || typeof current[key] !== 'object' || current[key] === null) {
-            current[key] = typeof path[i + 1] === 'number' ? [] : {};
-        }
-        current = current[key];
-    }
-    current[path[path.length - 1]] = value;
-}
-
-function deepDelete(obj: any, path: (string | number)[]): void {
-    let current = obj;
-    for (let i = 0; i < path.length - 1; i++) {
-        const key = path[i];
-        if (!(key in current) || typeof current[key] !== 'object' || current[key] === null) {
-            return;
-        }
-        current = current[key];
-    }
-    const lastSegment = path[path.length - 1];
-    if (Array.isArray(current) && typeof lastSegment === 'number') {
-        if (lastSegment >= 0 && lastSegment < current.length) {
-            current.splice(lastSegment, 1);
-        }
-    } else if (typeof current === 'object' && current !== null && current.hasOwnProperty(lastSegment)) {
-        delete current[lastSegment];
-    }
-}
\ No newline at end of file
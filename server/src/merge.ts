@@ -0,0 +1,172 @@
+// server/src/merge.ts
+
+/**
+ * Merge strategies: how writes to a path combine, for paths where the later write replacing
+ * the earlier one (last-writer-wins, see lww.ts) would lose concurrent edits.
+ *
+ * Strategies are registered by path pattern, e.g. `posts.*.likes`: segments separated by
+ * dots, `*` matching any one segment. A write to a path with a strategy other than `lww` is
+ * a `merge` operation that names the write it builds on (`base`): the latest `set`/`del` of
+ * the path or a path above it when the merge was made. A merge is folded into the value only
+ * while that is still the latest write, so a concurrent reset wins over the merges that did
+ * not see it, whatever order they arrive in, as long as a write arrives before the merges
+ * built on it, which the server's order guarantees. Merges on the same base must commute:
+ *
+ * - `counter`: the value is a number and merges add to it (`increment`).
+ * - `max` / `min`: the greatest / smallest value written is kept.
+ * - `mvr`: a multi-value register; the value is a sorted array of the values written
+ *   concurrently, and a write replaces the values its author saw.
+ * - a function `(current, incoming) => merged`, which must commute the same way.
+ *
+ * Every client of a room and the server must be given the same registry for it, so shared
+ * merge functions belong in a module both import.
+ *
+ * Text and list edits name their base the same way (`base` in their payload, see sequence.ts)
+ * and are dropped once it is replaced: a reset of the value, or of a path above it, wins over
+ * the edits that did not see it, and edits made after it start from the value it wrote.
+ *
+ * This file mirrors `sdk/src/merge.ts`; keep the two in sync
+ * (`npm run check:mirrors` compares them).
+ */
+
+import { compareVersions } from './clock';
+import type { WriteVersion } from './clock';
+import { isSuperseded, latestWrite } from './lww';
+import type { MetadataMap } from './lww';
+
+type Path = (string | number)[];
+
+/**
+ * Folds the value of a merge operation (`incoming`) into the value at its path (`current`,
+ * `undefined` when there is none). Concurrent merges may be folded in any order, so it must
+ * not depend on theirs.
+ */
+export type MergeFunction = (current: any, incoming: any) => any;
+
+export type MergeStrategy = 'lww' | 'counter' | 'max' | 'min' | 'mvr' | MergeFunction;
+
+/** Path patterns mapped to the strategy of the paths they match. Paths matching none use `lww`. */
+export interface MergeStrategies {
+    [pattern: string]: MergeStrategy;
+}
+
+/** Value of a `merge` operation. */
+export interface MergePayload {
+    /** What is folded in: the amount for `counter`, `{ value, seen }` for `mvr`, else the value written. */
+    value: any;
+    /** The latest `set`/`del` at or above the path when the merge was made; `null` if there was none. */
+    base: WriteVersion | null;
+}
+
+/**
+ * The strategy for `path`. When several patterns match, the one with a literal segment where
+ * the others have `*`, earliest in the path, wins, so the choice does not depend on the order
+ * patterns are listed in.
+ */
+export function strategyFor(strategies: MergeStrategies | undefined, path: Path): MergeStrategy {
+    let best: string[] | null = null;
+    let strategy: MergeStrategy = 'lww';
+    for (const pattern of Object.keys(strategies ?? {})) {
+        const segments = pattern.split('.');
+        if (segments.length !== path.length || !segments.every((segment, i) => segment === '*' || segment === String(path[i]))) {
+            continue;
+        }
+        if (!best || isMoreSpecific(segments, best)) {
+            best = segments;
+            strategy = strategies![pattern];
+        }
+    }
+    return strategy;
+}
+
+/** The write a merge, or a text or list edit, at `path` made now builds on. */
+export function mergeBase(metadata: MetadataMap, path: Path): WriteVersion | null {
+    const latest = latestWrite(metadata, path);
+    return latest ? { timestamp: latest.timestamp, counter: latest.counter, actorId: latest.actorId } : null;
+}
+
+/** True when the write `payload` built on has been replaced since, so the merge no longer applies. */
+export function isStaleMerge(metadata: MetadataMap, path: Path, payload: MergePayload): boolean {
+    return isReplaced(metadata, path, payload.base);
+}
+
+/**
+ * True when text or list edit `edit` no longer applies because the write it built on (`base`)
+ * has been replaced. Edits that name no base only lose to later writes.
+ */
+export function isStaleEdit(metadata: MetadataMap, path: Path, edit: WriteVersion, base: WriteVersion | null | undefined): boolean {
+    return base === undefined ? isSuperseded(metadata, path, edit) : isReplaced(metadata, path, base);
+}
+
+function isReplaced(metadata: MetadataMap, path: Path, base: WriteVersion | null): boolean {
+    const current = mergeBase(metadata, path);
+    if (!current || !base) {
+        return current !== base;
+    }
+    return compareVersions(current, base) !== 0;
+}
+
+/** What a merge operation carries for writing `value` over `current` (see `MergePayload.value`). */
+export function mergeOperand(strategy: MergeStrategy, current: any, value: any): any {
+    return strategy === 'mvr' ? { value, seen: registerValues(current) } : value;
+}
+
+/** The value at a path once a merge operation carrying `operand` is folded into `current`. */
+export function applyMerge(strategy: MergeStrategy, current: any, operand: any): any {
+    switch (strategy) {
+        case 'lww':
+            return operand;
+        case 'counter':
+            return (typeof current === 'number' ? current : 0) + operand;
+        case 'max':
+            return current === undefined || operand > current ? operand : current;
+        case 'min':
+            return current === undefined || operand < current ? operand : current;
+        case 'mvr': {
+            const seen = new Set((operand.seen as any[]).map((value) => JSON.stringify(value)));
+            // Keyed by JSON, so equal values written concurrently are kept once.
+            const values = new Map<string, any>();
+            registerValues(current)
+                .filter((value) => !seen.has(JSON.stringify(value)))
+                .forEach((value) => values.set(JSON.stringify(value), value));
+            values.set(JSON.stringify(operand.value), operand.value);
+            return [...values.keys()].sort().map((key) => values.get(key));
+        }
+        default:
+            return strategy(current, operand);
+    }
+}
+
+/**
+ * Checks the operand of a merge operation received from a client against the path's
+ * strategy. Returns a description of the problem, or `null` when it may be applied.
+ */
+export function checkMergeOperand(strategy: MergeStrategy, operand: any): string | null {
+    switch (strategy) {
+        case 'lww':
+            return 'path has no merge strategy';
+        case 'counter':
+            return typeof operand === 'number' && Number.isFinite(operand) ? null : 'counter merge value must be a finite number';
+        case 'max':
+        case 'min':
+            return typeof operand === 'number' || typeof operand === 'string' ? null : `${strategy} merge value must be a number or a string`;
+        case 'mvr':
+            return operand !== null && typeof operand === 'object' && 'value' in operand && Array.isArray(operand.seen)
+                ? null : 'mvr merge value must be { value, seen }';
+        default:
+            return null;
+    }
+}
+
+/** The values a multi-value register holds; a plain value written by `set` counts as one. */
+function registerValues(current: any): any[] {
+    if (current === undefined) {
+        return [];
+    }
+    return Array.isArray(current) ? current : [current];
+}
+
+function isMoreSpecific(pattern: string[], other: string[]): boolean {
+    const differs = pattern.findIndex((segment, i) => (segment === '*') !== (other[i] === '*'));
+    return differs !== -1 && pattern[differs] !== '*';
+}
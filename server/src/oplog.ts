@@ -0,0 +1,50 @@
+import { Operation } from './room';
+
+export interface LoggedOperation {
+    seq: number;
+    operation: Operation;
+}
+
+/**
+ * Recent operations of one room, numbered by the server in the order they were applied.
+ * Only the last `retention` entries are kept; a client that is further behind than that
+ * has to be sent a full snapshot instead.
+ */
+export class OperationLog {
+    private entries: LoggedOperation[] = [];
+    /** Sequence numbers of the logged operations by operation id. */
+    private seqs: Map<string, number> = new Map();
+
+    constructor(private retention: number) {}
+
+    append(seq: number, operation: Operation): void {
+        this.entries.push({ seq, operation });
+        this.seqs.set(operation.id, seq);
+        if (this.entries.length > this.retention) {
+            this.entries.splice(0, this.entries.length - this.retention).forEach((entry) => this.seqs.delete(entry.operation.id));
+        }
+    }
+
+    /** Sequence number of a logged operation, so one that is sent again is not applied twice. */
+    seqOf(operationId: string): number | undefined {
+        return this.seqs.get(operationId);
+    }
+
+    /**
+     * Operations after `seq`, given the room is currently at `currentSeq`. Returns `null`
+     * when some of them have already been dropped from the log.
+     */
+    since(seq: number, currentSeq: number): LoggedOperation[] | null {
+        if (seq > currentSeq || seq < 0) {
+            return null;
+        }
+        if (seq === currentSeq) {
+            return [];
+        }
+        const first = this.entries[0];
+        if (!first || first.seq > seq + 1) {
+            return null;
+        }
+        return this.entries.filter((entry) => entry.seq > seq);
+    }
+}
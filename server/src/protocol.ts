@@ -0,0 +1,68 @@
+// server/src/protocol.ts
+
+/**
+ * Version and optional features of the socket protocol. The client announces its side in the
+ * Socket.IO handshake, the server refuses clients it cannot serve with a
+ * `protocol_unsupported` error and answers the others with its own side in a `handshake`
+ * event. Both then settle on the same result with `negotiateProtocol`. A peer that announces
+ * nothing predates the handshake and speaks version 1 without features.
+ *
+ * This file mirrors `sdk/src/protocol.ts`; keep the two in sync
+ * (`npm run check:mirrors` compares them).
+ */
+
+/** Bump when an event or `Operation` changes in a way that peers on the previous version would misread. */
+export const PROTOCOL_VERSION = 2;
+
+/** Oldest version this side still speaks. */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Optional features, each used only when both sides list it. */
+export type ProtocolFeature =
+    /** Operations travel as binary batches (see wire.ts) instead of one JSON message each. */
+    | 'binary_batches'
+    /** One socket joins several rooms; room events name their room and `leave_room` leaves one. */
+    | 'multiple_rooms'
+    /** The server answers operations with `ack` once they are stored, and the client resends those it missed. */
+    | 'operation_acks';
+
+export const SUPPORTED_FEATURES: ProtocolFeature[] = ['binary_batches', 'multiple_rooms', 'operation_acks'];
+
+/** What one side announces. */
+export interface ProtocolHello {
+    version: number;
+    minVersion: number;
+    features: string[];
+}
+
+/** What both sides agreed on. */
+export interface NegotiatedProtocol {
+    version: number;
+    features: ProtocolFeature[];
+}
+
+export const LOCAL_PROTOCOL: ProtocolHello = {
+    version: PROTOCOL_VERSION,
+    minVersion: MIN_PROTOCOL_VERSION,
+    features: SUPPORTED_FEATURES,
+};
+
+/**
+ * The highest version both sides speak and the features both support, or `null` when no
+ * version suits both. Gives the same answer whichever side calls it.
+ */
+export function negotiateProtocol(local: ProtocolHello, remote: Partial<ProtocolHello> | undefined): NegotiatedProtocol | null {
+    const remoteVersion = isVersion(remote?.version) ? remote.version : 1;
+    const remoteMinVersion = isVersion(remote?.minVersion) ? Math.min(remote.minVersion, remoteVersion) : remoteVersion;
+    const version = Math.min(local.version, remoteVersion);
+    if (version < Math.max(local.minVersion, remoteMinVersion)) {
+        return null;
+    }
+    const remoteFeatures = Array.isArray(remote?.features) ? remote.features : [];
+    const features = SUPPORTED_FEATURES.filter((feature) => local.features.includes(feature) && remoteFeatures.includes(feature));
+    return { version, features };
+}
+
+function isVersion(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 1;
+}
@@ -0,0 +1,402 @@
+import {
+    SequenceState,
+    TextInsertPayload,
+    TextDeletePayload,
+    TextFormatPayload,
+    ListState,
+    ListInsertPayload,
+    ListRemovePayload,
+    ListMovePayload,
+    createSequence,
+    applyTextInsert,
+    applyTextDelete,
+    applyTextFormat,
+    textFromSequence,
+    createList,
+    applyListInsert,
+    applyListRemove,
+    applyListMove,
+    valuesFromList,
+} from './sequence';
+import crypto from 'crypto';
+import { PathMetadata, isSuperseded, newerDescendants, preservedValue, recordWrite, pruneEmptyAncestors } from './lww';
+import { MergePayload, MergeStrategies, applyMerge, isStaleEdit, isStaleMerge, strategyFor } from './merge';
+import { HybridLogicalClock } from './clock';
+
+export type Path = (string | number)[];
+
+export interface Operation {
+    id: string;
+    path: Path;
+    op: 'set' | 'del' | 'text_insert' | 'text_delete' | 'list_insert' | 'list_remove' | 'list_move' | 'transaction' | 'merge' | 'text_format';
+    value?: any;
+    /** Hybrid logical clock time of the write: milliseconds, with `counter` breaking ties. */
+    timestamp: number;
+    counter?: number;
+    actorId: string;
+    version: number;
+}
+
+export type { PathMetadata } from './lww';
+
+/** Everything the server keeps for one room; also the shape written to storage as a snapshot. */
+export interface RoomState {
+    /** Sequence number of the last operation applied to the room. */
+    seq: number;
+    state: any;
+    metadata: { [path: string]: PathMetadata };
+    texts: { [path: string]: SequenceState<string> };
+    lists: { [path: string]: ListState };
+}
+
+export function createRoomState(): RoomState {
+    return { seq: 0, state: {}, metadata: {}, texts: {}, lists: {} };
+}
+
+/** A clock for operations the server makes itself, ahead of every write the room has seen. */
+export function createRoomClock(room: RoomState): HybridLogicalClock {
+    const clock = new HybridLogicalClock();
+    Object.values(room.metadata).forEach((entry) => clock.receive(entry));
+    // Formatting leaves no metadata, but its marks are ordered by the same clock.
+    Object.values(room.texts).forEach((text) => text.marks?.forEach((mark) => clock.receive(mark)));
+    return clock;
+}
+
+/**
+ * Fills in what an operation submitted over HTTP may leave out: `id`, the clock fields,
+ * `version` and `actorId`, recursing into transactions. Given fields are kept as they are.
+ */
+export function completeOperation(partial: any, room: RoomState, clock: HybridLogicalClock, actorId: string): Operation {
+    if (partial === null || typeof partial !== 'object') {
+        return partial;
+    }
+    const operation = { ...partial };
+    if (operation.op === 'transaction' && Array.isArray(operation.value)) {
+        operation.value = operation.value.map((subOperation: any) => completeOperation(subOperation, room, clock, actorId));
+    }
+    if (operation.path === undefined && operation.op === 'transaction') {
+        operation.path = [];
+    }
+    operation.id = operation.id ?? crypto.randomUUID();
+    operation.actorId = operation.actorId ?? actorId;
+    if (operation.version === undefined) {
+        operation.version = Array.isArray(operation.path) ? (room.metadata[JSON.stringify(operation.path)]?.version ?? 0) + 1 : 0;
+    }
+    if (operation.timestamp === undefined) {
+        Object.assign(operation, clock.now());
+    }
+    return operation;
+}
+
+const OPERATION_TYPES = ['set', 'del', 'text_insert', 'text_delete', 'list_insert', 'list_remove', 'list_move', 'transaction', 'merge', 'text_format'];
+/** Operations that edit a text or list CRDT; their payloads are `SequenceEdit`s (see sequence.ts). */
+const SEQUENCE_OPERATION_TYPES = ['text_insert', 'text_delete', 'text_format', 'list_insert', 'list_remove', 'list_move'];
+
+/** Keys that would reach an object's prototype instead of a property of its own when walked. */
+const FORBIDDEN_SEGMENTS = ['__proto__', 'constructor', 'prototype'];
+
+/**
+ * Checks that an operation received from a client is structurally sound before anything
+ * touches the room. Returns a description of the first problem, or `null` when it is well formed.
+ */
+export function checkOperationShape(operation: any, insideTransaction: boolean = false): string | null {
+    if (operation === null || typeof operation !== 'object') {
+        return 'operation must be an object';
+    }
+    if (typeof operation.id !== 'string' || typeof operation.actorId !== 'string') {
+        return 'id and actorId must be strings';
+    }
+    if (!OPERATION_TYPES.includes(operation.op)) {
+        return `unknown operation type ${JSON.stringify(operation.op)}`;
+    }
+    if (typeof operation.timestamp !== 'number' || typeof operation.version !== 'number') {
+        return 'timestamp and version must be numbers';
+    }
+    if (operation.counter !== undefined && typeof operation.counter !== 'number') {
+        return 'counter must be a number';
+    }
+    if (!Array.isArray(operation.path) || !operation.path.every(isPathSegment)) {
+        return 'path must be an array of strings and non-negative integers';
+    }
+    if (operation.path.some((segment: unknown) => FORBIDDEN_SEGMENTS.includes(segment as string))) {
+        return `path must not contain ${FORBIDDEN_SEGMENTS.join(', ')}`;
+    }
+    if (operation.op !== 'transaction' && operation.path.length === 0) {
+        return `${operation.op} needs a non-empty path`;
+    }
+
+    const value = operation.value;
+    if (SEQUENCE_OPERATION_TYPES.includes(operation.op) && isObject(value) && value.base !== undefined && !isBase(value.base)) {
+        return `${operation.op} base must be null or { timestamp, actorId }`;
+    }
+    switch (operation.op) {
+        case 'transaction':
+            if (insideTransaction) {
+                return 'transactions cannot be nested';
+            }
+            if (!Array.isArray(value)) {
+                return 'transaction value must be an array of operations';
+            }
+            for (const subOperation of value) {
+                const problem = checkOperationShape(subOperation, true);
+                if (problem) {
+                    return `in transaction: ${problem}`;
+                }
+            }
+            return null;
+        case 'text_insert':
+            return isObject(value) && isOrigin(value.origin) && typeof value.id === 'string' && typeof value.text === 'string'
+                ? null : 'text_insert value must be { origin, id, text }';
+        case 'text_format':
+            return isObject(value) && typeof value.start === 'string' && typeof value.end === 'string' && isObject(value.attributes)
+                ? null : 'text_format value must be { start, end, attributes }';
+        case 'list_insert':
+            return isObject(value) && isOrigin(value.origin) && typeof value.id === 'string' && Array.isArray(value.values)
+                ? null : 'list_insert value must be { origin, id, values }';
+        case 'text_delete':
+        case 'list_remove':
+            return isObject(value) && Array.isArray(value.ids) && value.ids.every((id: unknown) => typeof id === 'string')
+                ? null : `${operation.op} value must be { ids }`;
+        case 'list_move':
+            return isObject(value) && typeof value.elementId === 'string' && isOrigin(value.origin) && typeof value.id === 'string'
+                ? null : 'list_move value must be { elementId, origin, id }';
+        case 'merge':
+            return isObject(value) && 'value' in value && isBase(value.base)
+                ? null : 'merge value must be { value, base }';
+        default:
+            return null;
+    }
+}
+
+function isPathSegment(segment: unknown): boolean {
+    return typeof segment === 'string' || (typeof segment === 'number' && Number.isInteger(segment) && segment >= 0);
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isOrigin(origin: unknown): boolean {
+    return origin === null || typeof origin === 'string';
+}
+
+function isBase(base: unknown): boolean {
+    return base === null || (isObject(base) && typeof base.timestamp === 'number' && typeof base.actorId === 'string');
+}
+
+/**
+ * True when `operation` would change nothing because later writes win over all of it (see
+ * lww.ts), or, for a merge or a text or list edit, because the write it built on was
+ * replaced (see merge.ts). A transaction is superseded when all of it is.
+ */
+export function isOperationSuperseded(room: RoomState, operation: Operation): boolean {
+    if (operation.op === 'transaction') {
+        const subOperations = operation.value as Operation[];
+        return subOperations.length > 0 && subOperations.every((subOperation) => isOperationSuperseded(room, subOperation));
+    }
+    if (operation.op === 'merge') {
+        return isStaleMerge(room.metadata, operation.path, operation.value as MergePayload);
+    }
+    if (SEQUENCE_OPERATION_TYPES.includes(operation.op)) {
+        return isStaleEdit(room.metadata, operation.path, operation, operation.value?.base);
+    }
+    return (operation.op === 'set' || operation.op === 'del') && isSuperseded(room.metadata, operation.path, operation);
+}
+
+/**
+ * Applies `operation` to `room` with the same rules as `CollabDoc.applyOperation`: text and
+ * list operations merge into their sequence CRDTs, merges are folded in with the path's
+ * strategy from `strategies`, `set`/`del` are resolved last-writer-wins. Returns false when
+ * the operation lost the LWW comparison or was a stale merge or edit and left the room
+ * unchanged.
+ */
+export function applyOperation(room: RoomState, operation: Operation, strategies?: MergeStrategies): boolean {
+    if (operation.op === 'transaction') {
+        // Sub-operations are resolved one by one, exactly as if they had arrived in order.
+        let appliedAny = false;
+        for (const subOperation of operation.value as Operation[]) {
+            if (applyOperation(room, subOperation, strategies)) {
+                appliedAny = true;
+            }
+        }
+        return appliedAny;
+    }
+
+    if (operation.op === 'merge') {
+        return applyMergeOperation(room, operation, strategies);
+    }
+
+    // Dropped once the value it edits was replaced, see `SequenceEdit.base`.
+    if (SEQUENCE_OPERATION_TYPES.includes(operation.op) && isStaleEdit(room.metadata, operation.path, operation, operation.value?.base)) {
+        console.log(`Server: Edit not applied, the value it edited was replaced.`);
+        return false;
+    }
+
+    if (applySequenceOperation(room, operation)) {
+        return true;
+    }
+
+    const path = operation.path;
+    const opType = operation.op;
+    const value = operation.value;
+
+    // Loses to a later write of this path or of any path above it (see lww.ts).
+    if (isSuperseded(room.metadata, path, operation)) {
+        console.log(`Server: Operation not applied due to LWW conflict (existing value wins).`);
+        return false;
+    }
+
+    // Writes below this path made after it are kept, as if everything had arrived in clock order.
+    const preserved = newerDescendants(room.metadata, path, operation)
+        .map((entry) => ({ ...entry, value: preservedValue(room.state, entry) }));
+    // A copy, so later writes below this path never reach back into the logged operation.
+    const copy = opType === 'set' && value !== undefined ? JSON.parse(JSON.stringify(value)) : undefined;
+    let mutated = true;
+    if (opType === 'set') {
+        mutated = deepSet(room.state, path, copy);
+    } else if (opType === 'del') {
+        deepDelete(room.state, path);
+    }
+    clearSequencesUnder(room, path);
+    recordWrite(room.metadata, path, {
+        timestamp: operation.timestamp,
+        counter: operation.counter,
+        actorId: operation.actorId,
+        version: operation.version,
+        ...(opType === 'del' ? { deleted: true } : mutated ? {} : { hiddenValue: copy })
+    });
+    if (opType === 'del') {
+        pruneEmptyAncestors(room.state, room.metadata, path);
+    }
+    preserved.forEach((entry) => {
+        if (entry.metadata.deleted) {
+            deepDelete(room.state, entry.path);
+            pruneEmptyAncestors(room.state, room.metadata, entry.path);
+        } else if (deepSet(room.state, entry.path, entry.value)) {
+            delete entry.metadata.hiddenValue;
+        } else {
+            entry.metadata.hiddenValue = entry.value;
+        }
+    });
+    return true;
+}
+
+/**
+ * Applies text and list operations to the room's sequence CRDTs and writes the resulting
+ * value into the room state. Returns false for operation types that are resolved by LWW instead.
+ */
+function applySequenceOperation(room: RoomState, operation: Operation): boolean {
+    const path = operation.path;
+    const pathKey = JSON.stringify(path);
+
+    if (operation.op === 'text_insert' || operation.op === 'text_delete' || operation.op === 'text_format') {
+        if (!room.texts[pathKey]) {
+            const existing = deepGet(room.state, path);
+            room.texts[pathKey] = createSequence(typeof existing === 'string' ? existing.split('') : []);
+        }
+        if (operation.op === 'text_insert') {
+            applyTextInsert(room.texts[pathKey], operation.value as TextInsertPayload);
+        } else if (operation.op === 'text_delete') {
+            applyTextDelete(room.texts[pathKey], operation.value as TextDeletePayload);
+        } else {
+            applyTextFormat(room.texts[pathKey], operation.value as TextFormatPayload, operation);
+        }
+        deepSet(room.state, path, textFromSequence(room.texts[pathKey]));
+        return true;
+    }
+
+    if (operation.op === 'list_insert' || operation.op === 'list_remove' || operation.op === 'list_move') {
+        if (!room.lists[pathKey]) {
+            const existing = deepGet(room.state, path);
+            room.lists[pathKey] = createList(Array.isArray(existing) ? existing : []);
+        }
+        if (operation.op === 'list_insert') {
+            applyListInsert(room.lists[pathKey], operation.value as ListInsertPayload);
+        } else if (operation.op === 'list_remove') {
+            applyListRemove(room.lists[pathKey], operation.value as ListRemovePayload);
+        } else {
+            applyListMove(room.lists[pathKey], operation.value as ListMovePayload);
+        }
+        deepSet(room.state, path, valuesFromList(room.lists[pathKey]));
+        return true;
+    }
+
+    return false;
+}
+
+/**
+ * Folds a merge into the value at its path, unless the write it built on has been replaced.
+ * Merges leave no metadata of their own: the value belongs to the write they built on.
+ */
+function applyMergeOperation(room: RoomState, operation: Operation, strategies?: MergeStrategies): boolean {
+    const payload = operation.value as MergePayload;
+    if (isStaleMerge(room.metadata, operation.path, payload)) {
+        console.log(`Server: Merge not applied, the write it built on was replaced.`);
+        return false;
+    }
+    const current = deepGet(room.state, operation.path);
+    const merged = applyMerge(strategyFor(strategies, operation.path), current === undefined ? undefined : JSON.parse(JSON.stringify(current)), payload.value);
+    clearSequencesUnder(room, operation.path);
+    return deepSet(room.state, operation.path, merged === undefined ? undefined : JSON.parse(JSON.stringify(merged)));
+}
+
+/** Drops text and list CRDTs at or below `path` once a plain `set`/`del` has replaced that subtree. */
+function clearSequencesUnder(room: RoomState, path: Path): void {
+    const pathKey = JSON.stringify(path);
+    const prefix = pathKey.slice(0, -1) + ',';
+    for (const store of [room.texts, room.lists] as { [path: string]: unknown }[]) {
+        for (const key of Object.keys(store)) {
+            if (key === pathKey || key.startsWith(prefix)) {
+                delete store[key];
+            }
+        }
+    }
+}
+
+/** Returns false when a path segment above the target holds a plain value, leaving `obj` unchanged. */
+function deepSet(obj: any, path: Path, value: any): boolean {
+    let current = obj;
+    for (let i = 0; i < path.length - 1; i++) {
+        const key = path[i];
+        if (current[key] !== undefined && (current[key] === null || typeof current[key] !== 'object')) {
+            // Writing below a plain value is ignored, as in the SDK (see lww.ts).
+            return false;
+        }
+        if (current[key] === undefined || Array.isArray(current[key]) !== (typeof path[i + 1] === 'number')) {
+            current[key] = typeof path[i + 1] === 'number' ? [] : {};
+        }
+        current = current[key];
+    }
+    current[path[path.length - 1]] = value;
+    return true;
+}
+
+function deepDelete(obj: any, path: Path): void {
+    let current = obj;
+    for (let i = 0; i < path.length - 1; i++) {
+        const key = path[i];
+        if (!(key in current) || typeof current[key] !== 'object' || current[key] === null) {
+            return;
+        }
+        current = current[key];
+    }
+    const lastSegment = path[path.length - 1];
+    if (Array.isArray(current) && typeof lastSegment === 'number') {
+        if (lastSegment >= 0 && lastSegment < current.length) {
+            current.splice(lastSegment, 1);
+        }
+    } else if (typeof current === 'object' && current !== null && current.hasOwnProperty(lastSegment)) {
+        delete current[lastSegment];
+    }
+}
+
+function deepGet(obj: any, path: Path): any {
+    let current = obj;
+    for (const segment of path) {
+        if (current === null || typeof current !== 'object' || !current.hasOwnProperty(segment)) {
+            return undefined;
+        }
+        current = current[segment];
+    }
+    return current;
+}
@@ -0,0 +1,170 @@
+import http from 'http';
+import { AuthHooks, AuthIdentity } from './auth';
+import { StorageAdapter } from './storage';
+import { roomAtVersion } from './history';
+import { MergeStrategies } from './merge';
+import { RequestError, bearerToken, readJsonBody, sendJson } from './http';
+
+/** Work that must run on the node owning the room, because it reads its live state or adds an operation. */
+export type OwnerCall =
+    | { action: 'read' }
+    | { action: 'apply'; operations: any[]; actorId: string; authenticatedActor: string | null }
+    | { action: 'create_snapshot'; name: string; seq?: number; createdBy?: string }
+    | { action: 'restore'; seq?: number; snapshotId?: string; actorId: string };
+
+export interface RouteContext {
+    auth: AuthHooks;
+    storage: StorageAdapter;
+    /** Merge strategies of a room, needed to replay its history. */
+    mergeStrategies(roomId: string): MergeStrategies | undefined;
+    /** Runs `call` on the node owning `roomId` and resolves to its result. */
+    callOwner(roomId: string, call: OwnerCall): Promise<any>;
+}
+
+/** Default and largest number of versions returned by one `GET /rooms/:id/versions`. */
+const DEFAULT_VERSION_LIMIT = 100;
+const MAX_VERSION_LIMIT = 1000;
+
+/**
+ * Serves the `/rooms` HTTP API. Returns false when `path` is not one of its routes.
+ * Requests authenticate with an `Authorization: Bearer <token>` header, using the same
+ * tokens and room access rules as sockets.
+ */
+export async function handleRoomRoute(req: http.IncomingMessage, res: http.ServerResponse, path: string, context: RouteContext): Promise<boolean> {
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+    if (segments[0] !== 'rooms' || segments.length > 4) {
+        return false;
+    }
+    const [, roomId, resource, item] = segments;
+    const route = [req.method, roomId !== undefined ? ':roomId' : '', resource ?? '', item !== undefined ? ':item' : ''].filter(Boolean).join(' ');
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    switch (route) {
+        case 'GET': {
+            const identity = await context.auth.authenticate(bearerToken(req));
+            if (context.auth.required && !identity) {
+                throw new RequestError(401, 'unauthorized', 'Unauthorized');
+            }
+            const rooms: string[] = [];
+            for (const candidate of await context.storage.listRooms()) {
+                if (await context.auth.authorizeRoom(identity, candidate) !== 'none') {
+                    rooms.push(candidate);
+                }
+            }
+            sendJson(res, 200, { rooms: rooms.map((id) => ({ roomId: id })) });
+            return true;
+        }
+        case 'GET :roomId': {
+            await authorize(req, roomId, 'read', context);
+            sendJson(res, 200, await context.callOwner(roomId, { action: 'read' }));
+            return true;
+        }
+        case 'POST :roomId operations': {
+            const identity = await authorize(req, roomId, 'write', context);
+            const body = await readJsonBody(req);
+            if (!Array.isArray(body.operations) || body.operations.length === 0) {
+                throw new RequestError(400, 'invalid_request', 'operations must be a non-empty array');
+            }
+            if (body.actorId !== undefined && typeof body.actorId !== 'string') {
+                throw new RequestError(400, 'invalid_request', 'actorId must be a string');
+            }
+            const result = await context.callOwner(roomId, {
+                action: 'apply',
+                operations: body.operations,
+                actorId: identity?.actorId ?? body.actorId ?? 'server',
+                authenticatedActor: identity?.actorId ?? null,
+            });
+            sendJson(res, 200, result);
+            return true;
+        }
+        case 'GET :roomId versions': {
+            await authorize(req, roomId, 'read', context);
+            const limit = Math.max(1, Math.min(parseInteger(url.searchParams.get('limit'), DEFAULT_VERSION_LIMIT), MAX_VERSION_LIMIT));
+            const before = parseInteger(url.searchParams.get('before'), Infinity);
+            const history = await context.storage.readHistory(roomId, 0, before - 1);
+            const versions = history.slice(-limit).reverse().map(({ seq, receivedAt, operation }) => ({
+                seq,
+                receivedAt,
+                operationId: operation.id,
+                actorId: operation.actorId,
+                op: operation.op,
+                path: operation.path,
+                timestamp: operation.timestamp,
+            }));
+            sendJson(res, 200, { versions });
+            return true;
+        }
+        case 'GET :roomId versions :item': {
+            await authorize(req, roomId, 'read', context);
+            const seq = parseInteger(item, NaN);
+            if (!Number.isInteger(seq) || seq < 0) {
+                throw new RequestError(400, 'invalid_request', 'Version must be a non-negative integer');
+            }
+            const room = await roomAtVersion(context.storage, roomId, seq, context.mergeStrategies(roomId));
+            sendJson(res, 200, { seq: room.seq, state: room.state });
+            return true;
+        }
+        case 'GET :roomId snapshots': {
+            await authorize(req, roomId, 'read', context);
+            sendJson(res, 200, { snapshots: await context.storage.listNamedSnapshots(roomId) });
+            return true;
+        }
+        case 'POST :roomId snapshots': {
+            const identity = await authorize(req, roomId, 'write', context);
+            const body = await readJsonBody(req);
+            if (typeof body.name !== 'string' || !body.name.trim()) {
+                throw new RequestError(400, 'invalid_request', 'Snapshot name must be a non-empty string');
+            }
+            if (body.seq !== undefined && !isSeq(body.seq)) {
+                throw new RequestError(400, 'invalid_request', 'seq must be a non-negative integer');
+            }
+            const snapshot = await context.callOwner(roomId, { action: 'create_snapshot', name: body.name.trim(), seq: body.seq, createdBy: identity?.actorId });
+            sendJson(res, 201, { snapshot });
+            return true;
+        }
+        case 'POST :roomId restore': {
+            const identity = await authorize(req, roomId, 'write', context);
+            const body = await readJsonBody(req);
+            if ((body.seq === undefined) === (body.snapshotId === undefined)) {
+                throw new RequestError(400, 'invalid_request', 'Give either seq or snapshotId');
+            }
+            if (body.seq !== undefined && !isSeq(body.seq)) {
+                throw new RequestError(400, 'invalid_request', 'seq must be a non-negative integer');
+            }
+            if (body.snapshotId !== undefined && typeof body.snapshotId !== 'string') {
+                throw new RequestError(400, 'invalid_request', 'snapshotId must be a string');
+            }
+            const result = await context.callOwner(roomId, { action: 'restore', seq: body.seq, snapshotId: body.snapshotId, actorId: identity?.actorId ?? 'server' });
+            sendJson(res, 200, result);
+            return true;
+        }
+        default:
+            return false;
+    }
+}
+
+async function authorize(req: http.IncomingMessage, roomId: string, needed: 'read' | 'write', context: RouteContext): Promise<AuthIdentity | null> {
+    const identity = await context.auth.authenticate(bearerToken(req));
+    if (context.auth.required && !identity) {
+        throw new RequestError(401, 'unauthorized', 'Unauthorized');
+    }
+    const access = await context.auth.authorizeRoom(identity, roomId);
+    if (access === 'none') {
+        throw new RequestError(403, 'forbidden', `Not allowed to access room ${roomId}`);
+    }
+    if (needed === 'write' && access !== 'write') {
+        throw new RequestError(403, 'read_only', `Room ${roomId} is read-only for this client`);
+    }
+    return identity;
+}
+
+function parseInteger(raw: string | null | undefined, fallback: number): number {
+    if (raw === null || raw === undefined || !/^\d+$/.test(raw)) {
+        return fallback;
+    }
+    return parseInt(raw, 10);
+}
+
+function isSeq(value: any): boolean {
+    return Number.isInteger(value) && value >= 0;
+}
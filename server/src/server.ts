@@ -0,0 +1,889 @@
+import { Server } from 'socket.io';
+import http from 'http';
+import crypto from 'crypto';
+import { Operation, RoomState, applyOperation, checkOperationShape, completeOperation, createRoomClock, createRoomState, isOperationSuperseded } from './room';
+import { latestWrite } from './lww';
+import { MemoryStorageAdapter, NamedSnapshot, StorageAdapter } from './storage';
+import { LoggedOperation, OperationLog } from './oplog';
+import { AuthHooks, AuthIdentity, RoomAccess, allowAllAuthHooks } from './auth';
+import { JSONSchema, SchemaViolation, formatViolations, newViolations } from './schema';
+import { MergePayload, MergeStrategies, checkMergeOperand, strategyFor } from './merge';
+import { ClusterAdapter, InProcessBroker } from './cluster';
+import { createRestoreOperation, roomAtVersion } from './history';
+import { OwnerCall, handleRoomRoute } from './routes';
+import { RequestError, handleCors, sendJson } from './http';
+import { ChangeFeed, WebhookOptions } from './events';
+import { decodeOperations, encodeOperations } from './wire';
+import { LOCAL_PROTOCOL, NegotiatedProtocol, negotiateProtocol } from './protocol';
+
+export interface CollabServerOptions {
+    /** Browser origins allowed to connect; `'*'` for local dev only. */
+    corsOrigin?: string | string[];
+    /** Shared by every node of a cluster, so a room can be loaded by whichever node owns it. Defaults to memory. */
+    storage?: StorageAdapter;
+    auth?: AuthHooks;
+    /** Room ids mapped to the JSON Schema their documents must satisfy; `*` applies to every room not listed. */
+    roomSchemas?: { [roomId: string]: JSONSchema };
+    /**
+     * Room ids mapped to how writes to their paths are merged (see merge.ts); `*` applies to
+     * every room not listed. Clients of a room must use the same strategies.
+     */
+    mergeStrategies?: { [roomId: string]: MergeStrategies };
+    /**
+     * Connection to the other nodes of the deployment. Defaults to a cluster of one; nodes
+     * started in the same process can share an `InProcessBroker`.
+     */
+    cluster?: ClusterAdapter;
+    /** Number of logged operations after which a room is compacted into a fresh snapshot. */
+    snapshotInterval?: number;
+    /** Number of recent operations per room kept in memory for incremental catch-up on reconnect. */
+    logRetention?: number;
+    /** Presence entries not refreshed within this window are dropped (clients heartbeat every 15s). */
+    awarenessTimeoutMs?: number;
+    /**
+     * How far ahead of the server's clock an operation's timestamp may be. Clients take their
+     * clock from the server on sync, so anything further ahead would win every conflict unfairly.
+     */
+    maxClockDriftMs?: number;
+    /** How long a node's claim on a room lasts without renewal, i.e. how soon another node takes over a crashed one's rooms. */
+    roomOwnershipTtlMs?: number;
+    /** How long an HTTP request waits for the node owning its room to answer. */
+    ownerCallTimeoutMs?: number;
+    /** Endpoints that receive this node's room events; see `ChangeFeed`. */
+    webhooks?: WebhookOptions[];
+}
+
+export interface CollabServer {
+    httpServer: http.Server;
+    io: Server;
+    cluster: ClusterAdapter;
+    /** Events of the rooms this node owns, for in-process listeners. */
+    events: ChangeFeed;
+    /** Stops serving, gives up this node's rooms and disconnects every client. */
+    close(): Promise<void>;
+}
+
+/** Sent to the node owning a room, which handles it on behalf of a client connected to `origin`. */
+type RoomRequest =
+    | { type: 'join'; roomId: string; lastSeq?: number; socketId: string; actorId: string | null; origin: string }
+    /** `ack` asks for an `ack` reply once the operations are stored (`operation_acks`). */
+    | { type: 'operation'; roomId: string; operations: Operation[]; ack: boolean; socketId: string; origin: string }
+    | { type: 'awareness'; roomId: string; actorId: string; state: Record<string, any> | null; socketId: string; origin: string }
+    | { type: 'left'; roomId: string; socketId: string; actorId: string | null; origin: string }
+    | { type: 'call'; roomId: string; call: OwnerCall; requestId: string; origin: string };
+
+/**
+ * What became of an operation: `applied` (stored as version `seq`), `superseded` (a later
+ * write, `winner`, already decided the value, so it was dropped), or refused as `invalid` or
+ * `unauthorized`. `seq` is the room's version the outcome was decided at; it is missing for
+ * operations refused before they reached the room.
+ */
+type OperationOutcome = 'applied' | 'superseded' | 'invalid' | 'unauthorized';
+
+interface OperationAck {
+    operationId: string;
+    outcome: OperationOutcome;
+    seq?: number;
+    code?: string;
+    message?: string;
+    violations?: SchemaViolation[];
+    winner?: { actorId: string; timestamp: number };
+}
+
+/** Sent back to the node a client is connected to, to emit `event` to it (joining it to `roomId` first if `join` is set). */
+interface Delivery {
+    type: 'deliver';
+    socketId: string;
+    roomId: string;
+    join?: boolean;
+    event: string;
+    args: any[];
+}
+
+/** Sent back to the node that made a `call` request with its outcome. */
+interface CallResponse {
+    type: 'response';
+    requestId: string;
+    result?: any;
+    error?: { status: number; code: string; message: string; details?: Record<string, any> };
+}
+
+/** Published on a room's channel so every node emits it to its own clients in that room. */
+type RoomBroadcast =
+    | { event: string; args: any[]; except?: string }
+    /** Operations committed together, emitted to each client in the wire format it accepted. */
+    | { event: 'operations'; entries: LoggedOperation[] };
+
+/**
+ * Creates a CollabDoc server node; call `httpServer.listen` to start serving. Each room is
+ * owned by one node of the cluster at a time, which loads it from storage, applies and
+ * numbers its operations and broadcasts them. Clients may connect to any node: requests
+ * for rooms owned elsewhere are forwarded to the owner, and broadcasts reach every node.
+ */
+export function createCollabServer(options: CollabServerOptions = {}): CollabServer {
+    const storage = options.storage ?? new MemoryStorageAdapter();
+    const auth = options.auth ?? allowAllAuthHooks;
+    const roomSchemas = options.roomSchemas ?? {};
+    const mergeStrategies = options.mergeStrategies ?? {};
+    const cluster = options.cluster ?? new InProcessBroker().connect();
+    const snapshotInterval = options.snapshotInterval ?? 100;
+    const logRetention = options.logRetention ?? 1000;
+    const awarenessTimeoutMs = options.awarenessTimeoutMs ?? 30000;
+    const maxClockDriftMs = options.maxClockDriftMs ?? 60000;
+    const roomOwnershipTtlMs = options.roomOwnershipTtlMs ?? 30000;
+    const ownerCallTimeoutMs = options.ownerCallTimeoutMs ?? 10000;
+    const nodeId = cluster.nodeId;
+    const events = new ChangeFeed(options.webhooks);
+
+    // State of the rooms this node owns.
+    const rooms: Map<string, Promise<RoomState>> = new Map();
+    const roomQueues: Map<string, Promise<unknown>> = new Map();
+    const roomLogs: Map<string, OperationLog> = new Map();
+    const operationsSinceSnapshot: Map<string, number> = new Map();
+    /** Ephemeral presence per room, keyed by actor id. Never persisted or LWW-resolved, only relayed. */
+    const roomAwareness: Map<string, Map<string, { state: Record<string, any>; socketId: string; updatedAt: number }>> = new Map();
+    const ownedRooms: Set<string> = new Set();
+
+    // Routing for the clients connected to this node.
+    const forwardQueues: Map<string, Promise<unknown>> = new Map();
+    const roomChannels: Map<string, Promise<void>> = new Map();
+    const pendingCalls: Map<string, { resolve: (result: any) => void; reject: (error: Error) => void }> = new Map();
+
+    /** Returns the room, loading it from storage (snapshot plus replayed log) the first time it is used. */
+    function getRoom(roomId: string): Promise<RoomState> {
+        let room = rooms.get(roomId);
+        if (!room) {
+            room = loadRoom(roomId);
+            rooms.set(roomId, room);
+            room.catch(() => rooms.delete(roomId));
+        }
+        return room;
+    }
+
+    async function loadRoom(roomId: string): Promise<RoomState> {
+        const stored = await storage.loadRoom(roomId);
+        const room = stored?.snapshot ?? createRoomState();
+        room.seq = room.seq ?? 0;
+        const log = new OperationLog(logRetention);
+        // Entries the snapshot already contains are left over from a crash while it was written.
+        const operations = (stored?.operations ?? []).filter((entry) => entry.seq > room.seq);
+        for (const { seq, operation } of operations) {
+            applyOperation(room, operation, strategiesFor(roomId));
+            room.seq = seq;
+            log.append(room.seq, operation);
+        }
+        roomLogs.set(roomId, log);
+        operationsSinceSnapshot.set(roomId, operations.length);
+        console.log(`Loaded room ${roomId} (${stored ? `${operations.length} logged operations` : 'new'})`);
+        if (!stored) {
+            events.emit({ type: 'room.created', roomId });
+        }
+        return room;
+    }
+
+    /** Forgets a room this node no longer owns; the new owner loads it from storage. */
+    function dropRoom(roomId: string): void {
+        enqueue(roomId, async () => {
+            ownedRooms.delete(roomId);
+            rooms.delete(roomId);
+            roomLogs.delete(roomId);
+            operationsSinceSnapshot.delete(roomId);
+            roomAwareness.delete(roomId);
+            console.log(`Room ${roomId} is now owned by another node`);
+        });
+    }
+
+    function strategiesFor(roomId: string): MergeStrategies | undefined {
+        return mergeStrategies[roomId] ?? mergeStrategies['*'];
+    }
+
+    /**
+     * Schema violations `operation` would add to the room, or an empty array when the room has
+     * no schema. Tried on a copy, so the room itself is untouched.
+     */
+    function checkSchema(roomId: string, room: RoomState, operation: Operation): SchemaViolation[] {
+        const schema = roomSchemas[roomId] ?? roomSchemas['*'];
+        if (!schema) {
+            return [];
+        }
+        const preview: RoomState = JSON.parse(JSON.stringify(room));
+        applyOperation(preview, operation, strategiesFor(roomId));
+        return newViolations(schema, room.state, preview.state);
+    }
+
+    /** Runs `task` once every earlier task for the same room has finished, so a room's operations are persisted and broadcast in order. */
+    function enqueue<T>(roomId: string, task: () => Promise<T>): Promise<T> {
+        const previous = roomQueues.get(roomId) ?? Promise.resolve();
+        const next = previous.then(task, task);
+        roomQueues.set(roomId, next.catch(() => undefined));
+        return next;
+    }
+
+    async function compactIfNeeded(roomId: string, room: RoomState): Promise<void> {
+        const count = (operationsSinceSnapshot.get(roomId) ?? 0) + 1;
+        operationsSinceSnapshot.set(roomId, count);
+        if (count < snapshotInterval) {
+            return;
+        }
+        try {
+            await storage.writeSnapshot(roomId, room);
+            operationsSinceSnapshot.set(roomId, 0);
+        } catch (error) {
+            // The log still holds every operation, so a failed snapshot only delays compaction.
+            console.error(`Failed to write snapshot for room ${roomId}:`, error);
+        }
+    }
+
+    /** Resolves to the node owning `roomId`, claiming it for this node when nobody else holds it. */
+    async function findOwner(roomId: string): Promise<string> {
+        const owner = await cluster.claimRoom(roomId, roomOwnershipTtlMs);
+        if (owner === nodeId) {
+            ownedRooms.add(roomId);
+        }
+        return owner;
+    }
+
+    /** Sends a request to the room's owner, in the order this node's clients made them. */
+    function forward(request: RoomRequest): Promise<void> {
+        const previous = forwardQueues.get(request.roomId) ?? Promise.resolve();
+        const next = previous.then(async () => {
+            const owner = await findOwner(request.roomId);
+            await cluster.publish(`node:${owner}`, request);
+        });
+        forwardQueues.set(request.roomId, next.catch(() => undefined));
+        return next;
+    }
+
+    /** Listens for a room's broadcasts, so they reach this node's clients in it. */
+    function subscribeToRoom(roomId: string): Promise<void> {
+        let subscribed = roomChannels.get(roomId);
+        if (!subscribed) {
+            subscribed = cluster.subscribe(`room:${roomId}`, (message: RoomBroadcast) => {
+                if ('entries' in message) {
+                    emitOperations(roomId, message.entries);
+                    return;
+                }
+                const target = message.except ? io.to(roomId).except(message.except) : io.to(roomId);
+                target.emit(message.event, ...message.args);
+            });
+            roomChannels.set(roomId, subscribed);
+            subscribed.catch(() => roomChannels.delete(roomId));
+        }
+        return subscribed;
+    }
+
+    function broadcast(roomId: string, event: string, args: any[], except?: string): void {
+        publishToRoom(roomId, { event, args, except });
+    }
+
+    function publishToRoom(roomId: string, message: RoomBroadcast): void {
+        cluster.publish(`room:${roomId}`, message).catch((error) => {
+            console.error(`Failed to broadcast ${message.event} in room ${roomId}:`, error);
+        });
+    }
+
+    /**
+     * Emits committed operations to this node's clients in the room: one binary batch to
+     * clients that support `binary_batches`, one `operation` message per operation to the rest.
+     */
+    function emitOperations(roomId: string, entries: LoggedOperation[]): void {
+        let batch: Uint8Array | null = null;
+        io.sockets.adapter.rooms.get(roomId)?.forEach((socketId) => {
+            const socket = io.sockets.sockets.get(socketId);
+            if (!socket) {
+                return;
+            }
+            const protocol: NegotiatedProtocol = socket.data.protocol;
+            if (protocol.features.includes('binary_batches')) {
+                batch = batch ?? encodeOperations(entries.map((entry) => entry.operation));
+                socket.emit('operations', roomId, batch, entries[0].seq);
+            } else {
+                entries.forEach(({ seq, operation }) => socket.emit('operation', roomId, operation, seq));
+            }
+        });
+    }
+
+    function reply(request: Exclude<RoomRequest, { type: 'call' }>, event: string, args: any[], join?: boolean): void {
+        const delivery: Delivery = { type: 'deliver', socketId: request.socketId, roomId: request.roomId, join, event, args };
+        cluster.publish(`node:${request.origin}`, delivery).catch((error) => {
+            console.error(`Failed to reply to ${request.socketId} on node ${request.origin}:`, error);
+        });
+    }
+
+    function deliver(delivery: Delivery): void {
+        const socket = io.sockets.sockets.get(delivery.socketId);
+        if (!socket) {
+            return;
+        }
+        if (delivery.join) {
+            // The client left the room while its join was being answered.
+            if (!socket.data.rooms.has(delivery.roomId)) {
+                return;
+            }
+            socket.join(delivery.roomId);
+            console.log(`${socket.id} joined room: ${delivery.roomId}`);
+        }
+        socket.emit(delivery.event, ...delivery.args);
+    }
+
+    function handleRequest(request: RoomRequest): void {
+        switch (request.type) {
+            case 'join':
+                handleJoin(request);
+                break;
+            case 'operation':
+                handleOperation(request);
+                break;
+            case 'awareness':
+                setAwareness(request.roomId, request.actorId, request.socketId, request.state);
+                break;
+            case 'left':
+                events.emit({ type: 'client.left', roomId: request.roomId, socketId: request.socketId, actorId: request.actorId });
+                roomAwareness.get(request.roomId)?.forEach((entry, actorId) => {
+                    if (entry.socketId === request.socketId) {
+                        setAwareness(request.roomId, actorId, request.socketId, null);
+                    }
+                });
+                break;
+            case 'call':
+                handleCall(request);
+                break;
+        }
+    }
+
+    /** Runs `call` on the room's owner, wherever it is. Rejects with a `RequestError` like the routes themselves. */
+    function callOwner(roomId: string, call: OwnerCall): Promise<any> {
+        const requestId = crypto.randomUUID();
+        return new Promise((resolve, reject) => {
+            const timeout = setTimeout(() => {
+                pendingCalls.delete(requestId);
+                reject(new RequestError(504, 'owner_unavailable', `The node owning room ${roomId} did not answer`));
+            }, ownerCallTimeoutMs);
+            pendingCalls.set(requestId, {
+                resolve: (result) => {
+                    clearTimeout(timeout);
+                    resolve(result);
+                },
+                reject: (error) => {
+                    clearTimeout(timeout);
+                    reject(error);
+                },
+            });
+            forward({ type: 'call', roomId, call, requestId, origin: nodeId }).catch((error) => {
+                pendingCalls.get(requestId)?.reject(error);
+                pendingCalls.delete(requestId);
+            });
+        });
+    }
+
+    function settleCall(response: CallResponse): void {
+        const pending = pendingCalls.get(response.requestId);
+        if (!pending) {
+            return;
+        }
+        pendingCalls.delete(response.requestId);
+        if (response.error) {
+            pending.reject(new RequestError(response.error.status, response.error.code, response.error.message, response.error.details));
+        } else {
+            pending.resolve(response.result);
+        }
+    }
+
+    function handleCall(request: Extract<RoomRequest, { type: 'call' }>): void {
+        const { roomId, call } = request;
+        enqueue(roomId, async () => {
+            const room = await getRoom(roomId);
+            switch (call.action) {
+                case 'read':
+                    return { roomId, seq: room.seq, state: room.state };
+                case 'apply':
+                    return applyOperations(roomId, room, call);
+                case 'create_snapshot':
+                    return createNamedSnapshot(roomId, room, call);
+                case 'restore':
+                    return restoreRoom(roomId, room, call);
+            }
+        }).then((result) => {
+            respond(request, { result });
+        }, (error) => {
+            if (!(error instanceof RequestError)) {
+                console.error(`Failed to run ${call.action} in room ${roomId}:`, error);
+            }
+            const failure = error instanceof RequestError ? error : new RequestError(500, 'storage_failed', `Failed to run ${call.action} in room ${roomId}`);
+            respond(request, { error: { status: failure.status, code: failure.code, message: failure.message, details: failure.details } });
+        });
+    }
+
+    function respond(request: Extract<RoomRequest, { type: 'call' }>, outcome: { result?: any; error?: CallResponse['error'] }): void {
+        const response: CallResponse = { type: 'response', requestId: request.requestId, ...outcome };
+        cluster.publish(`node:${request.origin}`, response).catch((error) => {
+            console.error(`Failed to answer request ${request.requestId} on node ${request.origin}:`, error);
+        });
+    }
+
+    /**
+     * Applies operations submitted over HTTP one after another, through the same checks as
+     * socket operations. Stops at the first one rejected; those before it stay applied.
+     */
+    async function applyOperations(roomId: string, room: RoomState, call: Extract<OwnerCall, { action: 'apply' }>): Promise<{ applied: { operationId: string; seq: number }[] }> {
+        const applied: { operationId: string; seq: number }[] = [];
+        const committed: LoggedOperation[] = [];
+        const clock = createRoomClock(room);
+        try {
+            for (const submitted of call.operations) {
+                const operation = completeOperation(submitted, room, clock, call.actorId);
+                const rejection = checkOperation(roomId, operation, 'write', call.authenticatedActor);
+                if (rejection) {
+                    const status = rejection.code === 'actor_mismatch' ? 403 : 400;
+                    throw new RequestError(status, rejection.code, rejection.message, { operationId: operation?.id, applied });
+                }
+                const violations = checkSchema(roomId, room, operation);
+                if (violations.length > 0) {
+                    throw new RequestError(422, 'schema_violation', `Operation would violate the room schema: ${formatViolations(violations)}`, {
+                        operationId: operation.id,
+                        violations,
+                        applied,
+                    });
+                }
+                const entry = await storeOperation(roomId, room, operation);
+                committed.push(entry);
+                applied.push({ operationId: operation.id, seq: entry.seq });
+            }
+        } finally {
+            broadcastOperations(roomId, room, committed);
+        }
+        return { applied };
+    }
+
+    /**
+     * Checks an operation from a client before it goes anywhere near the room: its shape, the
+     * client's access, that it is made by `authenticatedActor` when there is one, and its clock.
+     * Returns why it is refused, or `null` when it may be applied.
+     */
+    function checkOperation(roomId: string, operation: Operation, access: RoomAccess | undefined, authenticatedActor: string | null): { code: string; message: string; outcome: OperationOutcome } | null {
+        const malformed = checkOperationShape(operation);
+        if (malformed) {
+            return { code: 'invalid_operation', message: `Malformed operation: ${malformed}`, outcome: 'invalid' };
+        }
+        if (!access) {
+            return { code: 'forbidden', message: `Join room ${roomId} before sending operations`, outcome: 'unauthorized' };
+        }
+        if (access !== 'write') {
+            return { code: 'read_only', message: `Room ${roomId} is read-only for this client`, outcome: 'unauthorized' };
+        }
+        const subOperations: Operation[] = operation?.op === 'transaction' && Array.isArray(operation.value) ? operation.value : [];
+        if (authenticatedActor && [operation, ...subOperations].some((op) => op?.actorId !== authenticatedActor)) {
+            return { code: 'actor_mismatch', message: `Operation actorId does not match authenticated actor ${authenticatedActor}`, outcome: 'unauthorized' };
+        }
+        for (const op of [operation, ...subOperations]) {
+            const problem = op.op === 'merge' ? checkMergeOperand(strategyFor(strategiesFor(roomId), op.path), (op.value as MergePayload).value) : null;
+            if (problem) {
+                return { code: 'invalid_operation', message: `Malformed operation: ${problem} at ${JSON.stringify(op.path)}`, outcome: 'invalid' };
+            }
+        }
+        const latestAllowed = Date.now() + maxClockDriftMs;
+        if ([operation, ...subOperations].some((op) => typeof op?.timestamp !== 'number' || op.timestamp > latestAllowed)) {
+            return { code: 'clock_skew', message: `Operation timestamp is missing or more than ${maxClockDriftMs}ms ahead of the server clock`, outcome: 'invalid' };
+        }
+        return null;
+    }
+
+    /** The room at `seq`, which may be its current state. */
+    async function versionOf(roomId: string, room: RoomState, seq: number): Promise<RoomState> {
+        if (seq > room.seq) {
+            throw new RequestError(404, 'version_not_found', `Room ${roomId} has no version ${seq}`);
+        }
+        return seq === room.seq ? JSON.parse(JSON.stringify(room)) : roomAtVersion(storage, roomId, seq, strategiesFor(roomId));
+    }
+
+    async function createNamedSnapshot(roomId: string, room: RoomState, call: Extract<OwnerCall, { action: 'create_snapshot' }>): Promise<NamedSnapshot> {
+        const target = await versionOf(roomId, room, call.seq ?? room.seq);
+        const snapshot: NamedSnapshot = { id: crypto.randomUUID(), name: call.name, seq: target.seq, createdAt: Date.now() };
+        if (call.createdBy) {
+            snapshot.createdBy = call.createdBy;
+        }
+        await storage.saveNamedSnapshot(roomId, snapshot, target);
+        console.log(`Created snapshot "${snapshot.name}" of room ${roomId} at version ${snapshot.seq}`);
+        return snapshot;
+    }
+
+    /** Brings the document back to an earlier version with a new operation, so clients receive it like any edit. */
+    async function restoreRoom(roomId: string, room: RoomState, call: Extract<OwnerCall, { action: 'restore' }>): Promise<{ seq: number; operationId: string | null }> {
+        let target: RoomState;
+        if (call.snapshotId !== undefined) {
+            const stored = await storage.loadNamedSnapshot(roomId, call.snapshotId);
+            if (!stored) {
+                throw new RequestError(404, 'snapshot_not_found', `Room ${roomId} has no snapshot ${call.snapshotId}`);
+            }
+            target = stored;
+        } else {
+            target = await versionOf(roomId, room, call.seq ?? room.seq);
+        }
+        const operation = createRestoreOperation(room, target, call.actorId);
+        if (!operation) {
+            return { seq: room.seq, operationId: null };
+        }
+        const seq = await commitOperation(roomId, room, operation);
+        console.log(`Restored room ${roomId} to version ${target.seq} as version ${seq}`);
+        return { seq, operationId: operation.id };
+    }
+
+    function handleJoin(request: Extract<RoomRequest, { type: 'join' }>): void {
+        const { roomId, lastSeq, socketId } = request;
+        enqueue(roomId, async () => {
+            const room = await getRoom(roomId);
+            const missed = typeof lastSeq === 'number' ? roomLogs.get(roomId)?.since(lastSeq, room.seq) : null;
+            if (missed) {
+                reply(request, 'catch_up', [roomId, missed, room.seq, Date.now()], true);
+                console.log(`Sent ${missed.length} missed operations for room ${roomId} to ${socketId} (from seq ${lastSeq})`);
+            } else {
+                // The room id goes last, so clients from before `multiple_rooms` still read the rest.
+                reply(request, 'initial_state', [room.state, room.metadata, room.texts, room.lists, room.seq, Date.now(), roomId], true);
+                console.log(`Sent initial state for room ${roomId} to ${socketId}. Doc:`, room.state, 'Metadata:', room.metadata);
+            }
+            reply(request, 'awareness', [roomId, getAwarenessStates(roomId)]);
+            events.emit({ type: 'client.joined', roomId, socketId, actorId: request.actorId });
+        }).catch((error) => {
+            console.error(`Failed to load room ${roomId}:`, error);
+            reply(request, 'error', [{ code: 'storage_failed', message: `Failed to load room ${roomId}`, roomId }]);
+        });
+    }
+
+    /** Commits a client's operations in order and broadcasts them together; a failed one stops the rest. */
+    function handleOperation(request: Extract<RoomRequest, { type: 'operation' }>): void {
+        const { roomId, operations } = request;
+        let current: Operation | undefined;
+        enqueue(roomId, async () => {
+            const room = await getRoom(roomId);
+            const committed: LoggedOperation[] = [];
+            const acks: OperationAck[] = [];
+            try {
+                for (const operation of operations) {
+                    current = operation;
+                    // Sent again by a client that missed our ack; it is only acknowledged again.
+                    const seq = roomLogs.get(roomId)?.seqOf(operation.id);
+                    if (seq !== undefined) {
+                        console.log(`Operation ${operation.id} in room ${roomId} was already applied at seq ${seq}`);
+                        acks.push({ operationId: operation.id, outcome: 'applied', seq });
+                        continue;
+                    }
+                    // Applying it would change nothing, so it is neither stored nor broadcast.
+                    if (isOperationSuperseded(room, operation)) {
+                        console.log(`Operation ${operation.id} in room ${roomId} lost to a later write`);
+                        const winner = operation.op !== 'transaction' ? latestWrite(room.metadata, operation.path) : undefined;
+                        acks.push({
+                            operationId: operation.id,
+                            outcome: 'superseded',
+                            seq: room.seq,
+                            ...(winner ? { winner: { actorId: winner.actorId, timestamp: winner.timestamp } } : {}),
+                        });
+                        continue;
+                    }
+                    const violations = checkSchema(roomId, room, operation);
+                    if (violations.length > 0) {
+                        console.log(`Rejected operation ${operation.id} in room ${roomId}: ${formatViolations(violations)}`);
+                        const rejection = {
+                            code: 'schema_violation',
+                            message: `Operation would violate the room schema: ${formatViolations(violations)}`,
+                            violations,
+                        };
+                        if (request.ack) {
+                            acks.push({ operationId: operation.id, outcome: 'invalid', seq: room.seq, ...rejection });
+                        } else {
+                            reply(request, 'error', [{ ...rejection, roomId, operationId: operation.id }]);
+                        }
+                        continue;
+                    }
+                    const entry = await storeOperation(roomId, room, operation);
+                    committed.push(entry);
+                    acks.push({ operationId: operation.id, outcome: 'applied', seq: entry.seq });
+                }
+            } finally {
+                broadcastOperations(roomId, room, committed);
+                if (request.ack && acks.length > 0) {
+                    reply(request, 'ack', [roomId, acks]);
+                }
+            }
+        }).catch((error) => {
+            console.error(`Failed to persist operation in room ${roomId}:`, error);
+            reply(request, 'error', [{ code: 'storage_failed', message: `Failed to save operation ${(current ?? operations[0])?.id}`, roomId }]);
+        });
+    }
+
+    /** Stores, applies and broadcasts an accepted operation; resolves to its sequence number. */
+    async function commitOperation(roomId: string, room: RoomState, operation: Operation): Promise<number> {
+        const entry = await storeOperation(roomId, room, operation);
+        broadcastOperations(roomId, room, [entry]);
+        return entry.seq;
+    }
+
+    /** Stores and applies an accepted operation; it still has to be broadcast. */
+    async function storeOperation(roomId: string, room: RoomState, operation: Operation): Promise<LoggedOperation> {
+        // Logged before it is applied so that replaying the log always reproduces the broadcast state.
+        await storage.appendOperation(roomId, { seq: room.seq + 1, operation, receivedAt: Date.now() });
+        applyOperation(room, operation, strategiesFor(roomId));
+        room.seq++;
+        roomLogs.get(roomId)?.append(room.seq, operation);
+        events.emit({ type: 'operation.applied', roomId, seq: room.seq, operation });
+        await compactIfNeeded(roomId, room);
+        return { seq: room.seq, operation };
+    }
+
+    function broadcastOperations(roomId: string, room: RoomState, entries: LoggedOperation[]): void {
+        if (entries.length === 0) {
+            return;
+        }
+        publishToRoom(roomId, { event: 'operations', entries });
+        console.log(`Broadcasted ${entries.length} operation(s) to room ${roomId}. Current Server State:`, room.state, 'Current Server Metadata:', room.metadata);
+    }
+
+    function setAwareness(roomId: string, actorId: string, socketId: string, state: Record<string, any> | null): void {
+        let states = roomAwareness.get(roomId);
+        if (state === null) {
+            if (!states?.delete(actorId)) {
+                return;
+            }
+            if (states.size === 0) {
+                roomAwareness.delete(roomId);
+            }
+        } else {
+            if (!states) {
+                states = new Map();
+                roomAwareness.set(roomId, states);
+            }
+            states.set(actorId, { state, socketId, updatedAt: Date.now() });
+        }
+        broadcast(roomId, 'awareness', [roomId, { [actorId]: state }], socketId);
+    }
+
+    function getAwarenessStates(roomId: string): { [actorId: string]: Record<string, any> } {
+        const states: { [actorId: string]: Record<string, any> } = {};
+        roomAwareness.get(roomId)?.forEach((entry, actorId) => {
+            states[actorId] = entry.state;
+        });
+        return states;
+    }
+
+    const httpServer = http.createServer((req, res) => {
+        const path = req.url?.split('?')[0] ?? '/';
+
+        if (path === '/health' || path === '/healthz') {
+            res.writeHead(200, { 'Content-Type': 'application/json; charset=utf-8' });
+            res.end(JSON.stringify({ status: 'ok', service: 'collab-server', node: nodeId }));
+            return;
+        }
+
+        if (path === '/rooms' || path.startsWith('/rooms/')) {
+            if (handleCors(req, res, options.corsOrigin ?? '*')) {
+                return;
+            }
+            handleRoomRoute(req, res, path, { auth, storage, mergeStrategies: strategiesFor, callOwner }).then((handled) => {
+                if (!handled) {
+                    sendJson(res, 404, { code: 'not_found', message: `No route for ${req.method} ${path}` });
+                }
+            }, (error) => {
+                if (error instanceof RequestError) {
+                    sendJson(res, error.status, { code: error.code, message: error.message, ...error.details });
+                    return;
+                }
+                console.error(`Failed to handle ${req.method} ${path}:`, error);
+                sendJson(res, 500, { code: 'internal_error', message: 'Internal server error' });
+            });
+            return;
+        }
+
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+        res.end('CollabDoc Socket.IO Server\n');
+    });
+
+    const io = new Server(httpServer, {
+        cors: {
+            origin: options.corsOrigin ?? '*',
+            methods: ['GET', 'POST'],
+        },
+    });
+
+    const nodeChannel = cluster.subscribe(`node:${nodeId}`, (message: RoomRequest | Delivery | CallResponse) => {
+        if (message.type === 'deliver') {
+            deliver(message);
+        } else if (message.type === 'response') {
+            settleCall(message);
+        } else {
+            handleRequest(message);
+        }
+    });
+
+    io.use((socket, next) => {
+        const protocol = negotiateProtocol(LOCAL_PROTOCOL, socket.handshake.auth?.protocol);
+        if (!protocol) {
+            const version = socket.handshake.auth?.protocol?.version;
+            const error: Error & { data?: any } = new Error(
+                `Protocol version ${version} is not supported (this server speaks ${LOCAL_PROTOCOL.minVersion}-${LOCAL_PROTOCOL.version})`
+            );
+            error.data = { code: 'protocol_unsupported', server: LOCAL_PROTOCOL };
+            next(error);
+            return;
+        }
+        socket.data.protocol = protocol;
+        const token = socket.handshake.auth?.token;
+        Promise.all([auth.authenticate(typeof token === 'string' ? token : undefined), nodeChannel]).then(([identity]) => {
+            if (auth.required && !identity) {
+                const error: Error & { data?: any } = new Error('Unauthorized');
+                error.data = { code: 'unauthorized' };
+                next(error);
+                return;
+            }
+            socket.data.identity = identity;
+            socket.data.rooms = new Map<string, RoomAccess>();
+            next();
+        }, (error) => {
+            console.error(`Failed to authenticate ${socket.id}:`, error);
+            next(new Error('Authentication failed'));
+        });
+    });
+
+    io.on('connection', (socket) => {
+        console.log(`Client connected: ${socket.id}`);
+        // Our side of the protocol; clients from before the handshake ignore it.
+        socket.emit('handshake', LOCAL_PROTOCOL);
+        const identity: AuthIdentity | null = socket.data.identity;
+        const roomAccess: Map<string, RoomAccess> = socket.data.rooms;
+
+        socket.on('join_room', (roomId: string, lastSeq?: number) => {
+            auth.authorizeRoom(identity, roomId).then(async (access) => {
+                if (access === 'none') {
+                    socket.emit('error', { code: 'forbidden', message: `Not allowed to join room ${roomId}`, roomId });
+                    return;
+                }
+                // Subscribed before the owner takes its snapshot, so no broadcast after it is missed.
+                await subscribeToRoom(roomId);
+                roomAccess.set(roomId, access);
+                await forward({ type: 'join', roomId, lastSeq, socketId: socket.id, actorId: identity?.actorId ?? null, origin: nodeId });
+            }).catch((error) => {
+                console.error(`Failed to join room ${roomId}:`, error);
+                socket.emit('error', { code: 'storage_failed', message: `Failed to load room ${roomId}`, roomId });
+            });
+        });
+
+        /** Forwards the operations that pass `checkOperation` to the room's owner; the others are answered with an error. */
+        function submitOperations(roomId: string, operations: Operation[]): void {
+            const protocol: NegotiatedProtocol = socket.data.protocol;
+            const ack = protocol.features.includes('operation_acks');
+            const refused: OperationAck[] = [];
+            const accepted = operations.filter((operation) => {
+                const rejection = checkOperation(roomId, operation, roomAccess.get(roomId), identity?.actorId ?? null);
+                if (rejection) {
+                    console.log(`Rejected operation ${operation?.id} in room ${roomId} from ${socket.id}: ${rejection.message}`);
+                    const { outcome, ...error } = rejection;
+                    if (ack) {
+                        refused.push({ operationId: operation?.id, outcome, ...error });
+                    } else {
+                        socket.emit('error', { ...error, roomId, operationId: operation?.id });
+                    }
+                }
+                return !rejection;
+            });
+            if (refused.length > 0) {
+                socket.emit('ack', roomId, refused);
+            }
+            if (accepted.length === 0) {
+                return;
+            }
+            forward({ type: 'operation', roomId, operations: accepted, ack, socketId: socket.id, origin: nodeId }).catch((error) => {
+                console.error(`Failed to forward operations in room ${roomId}:`, error);
+                socket.emit('error', { code: 'storage_failed', message: `Failed to save operation ${accepted[0].id}`, roomId });
+            });
+        }
+
+        socket.on('operation', (roomId: string, operation: Operation) => {
+            console.log(`Received operation in room ${roomId} from ${socket.id}:`, operation);
+            submitOperations(roomId, [operation]);
+        });
+
+        // A binary batch (see wire.ts) from a client that supports `binary_batches`.
+        socket.on('operations', (roomId: string, payload: Buffer) => {
+            let operations: Operation[];
+            try {
+                operations = decodeOperations(payload);
+            } catch (error) {
+                const message = error instanceof Error ? error.message : String(error);
+                console.log(`Rejected operation batch in room ${roomId} from ${socket.id}: ${message}`);
+                socket.emit('error', { code: 'invalid_operation', message, roomId });
+                return;
+            }
+            console.log(`Received ${operations.length} operation(s) in room ${roomId} from ${socket.id}`);
+            submitOperations(roomId, operations);
+        });
+
+        socket.on('awareness', (roomId: string, actorId: string, state: Record<string, any> | null) => {
+            if (!roomAccess.has(roomId)) {
+                return;
+            }
+            forward({ type: 'awareness', roomId, actorId: identity?.actorId ?? actorId, state, socketId: socket.id, origin: nodeId }).catch((error) => {
+                console.error(`Failed to forward awareness in room ${roomId}:`, error);
+            });
+        });
+
+        // One socket can be in several rooms (`multiple_rooms`); this leaves one of them and keeps the rest.
+        socket.on('leave_room', (roomId: string) => {
+            if (!roomAccess.delete(roomId)) {
+                return;
+            }
+            socket.leave(roomId);
+            console.log(`${socket.id} left room: ${roomId}`);
+            forward({ type: 'left', roomId, socketId: socket.id, actorId: identity?.actorId ?? null, origin: nodeId }).catch((error) => {
+                console.error(`Failed to forward leave in room ${roomId}:`, error);
+            });
+        });
+
+        socket.on('disconnect', () => {
+            console.log(`Client disconnected: ${socket.id}`);
+            roomAccess.forEach((_access, roomId) => {
+                forward({ type: 'left', roomId, socketId: socket.id, actorId: identity?.actorId ?? null, origin: nodeId }).catch((error) => {
+                    console.error(`Failed to forward disconnect in room ${roomId}:`, error);
+                });
+            });
+        });
+
+        socket.on('error', (error) => {
+            console.error(`Socket error for ${socket.id}: ${error}`);
+        });
+    });
+
+    const awarenessSweep = setInterval(() => {
+        const cutoff = Date.now() - awarenessTimeoutMs;
+        roomAwareness.forEach((states, roomId) => {
+            states.forEach((entry, actorId) => {
+                if (entry.updatedAt < cutoff) {
+                    setAwareness(roomId, actorId, entry.socketId, null);
+                }
+            });
+        });
+    }, awarenessTimeoutMs / 2);
+
+    // Claims lapse unless renewed; a room claimed by another node in the meantime is given up.
+    const ownershipRenewal = setInterval(() => {
+        ownedRooms.forEach((roomId) => {
+            cluster.claimRoom(roomId, roomOwnershipTtlMs).then((owner) => {
+                if (owner !== nodeId) {
+                    dropRoom(roomId);
+                }
+            }, (error) => {
+                console.error(`Failed to renew ownership of room ${roomId}:`, error);
+            });
+        });
+    }, roomOwnershipTtlMs / 3);
+
+    async function close(): Promise<void> {
+        clearInterval(awarenessSweep);
+        clearInterval(ownershipRenewal);
+        await new Promise<void>((resolve) => io.close(() => resolve()));
+        // Let queued work for owned rooms finish, so the next owner finds it in storage.
+        await Promise.all([...roomQueues.values()]);
+        await Promise.all([...ownedRooms].map((roomId) => cluster.releaseRoom(roomId)));
+        await cluster.close();
+        events.close();
+    }
+
+    return { httpServer, io, cluster, events, close };
+}
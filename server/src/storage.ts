@@ -0,0 +1,254 @@
+import fs from 'fs';
+import path from 'path';
+import { RoomState } from './room';
+import { LoggedOperation } from './oplog';
+
+/**
+ * What a storage adapter hands back for a room: the latest snapshot plus the operations
+ * logged after it, with their sequence numbers. After a crash while a snapshot was written
+ * the log may still hold operations the snapshot already contains; those have a `seq` at or
+ * below the snapshot's and must be skipped.
+ */
+export interface StoredRoom {
+    snapshot: RoomState | null;
+    operations: LoggedOperation[];
+}
+
+/** An operation as kept in a room's history: numbered, and stamped with when the server accepted it. */
+export interface HistoryEntry extends LoggedOperation {
+    receivedAt: number;
+}
+
+/** A named point in a room's history. The room state at that point is stored along with it. */
+export interface NamedSnapshot {
+    id: string;
+    name: string;
+    /** Sequence number of the last operation included. */
+    seq: number;
+    createdAt: number;
+    /** Actor that created it, when the request was authenticated. */
+    createdBy?: string;
+}
+
+/**
+ * Durable backing store for rooms. `appendOperation` must only resolve once the operation
+ * is safely written; `writeSnapshot` replaces the stored snapshot and discards the
+ * operations it already contains. The history read by `readHistory` keeps every operation
+ * regardless of snapshots, and named snapshots are kept until deleted by hand.
+ */
+export interface StorageAdapter {
+    loadRoom(roomId: string): Promise<StoredRoom | null>;
+    /** Ids of every room with anything stored. */
+    listRooms(): Promise<string[]>;
+    appendOperation(roomId: string, entry: HistoryEntry): Promise<void>;
+    writeSnapshot(roomId: string, snapshot: RoomState): Promise<void>;
+    /** History entries with `afterSeq < seq <= upToSeq`, oldest first. */
+    readHistory(roomId: string, afterSeq?: number, upToSeq?: number): Promise<HistoryEntry[]>;
+    saveNamedSnapshot(roomId: string, snapshot: NamedSnapshot, room: RoomState): Promise<void>;
+    /** Named snapshots of the room, oldest first. */
+    listNamedSnapshots(roomId: string): Promise<NamedSnapshot[]>;
+    loadNamedSnapshot(roomId: string, id: string): Promise<RoomState | null>;
+}
+
+/** Keeps rooms in process memory only; the default when no storage directory is configured. */
+export class MemoryStorageAdapter implements StorageAdapter {
+    private rooms: Map<string, StoredRoom> = new Map();
+    private histories: Map<string, HistoryEntry[]> = new Map();
+    private namedSnapshots: Map<string, { snapshot: NamedSnapshot; room: RoomState }[]> = new Map();
+
+    async loadRoom(roomId: string): Promise<StoredRoom | null> {
+        const room = this.rooms.get(roomId);
+        return room ? JSON.parse(JSON.stringify(room)) : null;
+    }
+
+    async listRooms(): Promise<string[]> {
+        return [...this.rooms.keys()];
+    }
+
+    async appendOperation(roomId: string, entry: HistoryEntry): Promise<void> {
+        const room = this.rooms.get(roomId) || { snapshot: null, operations: [] };
+        room.operations.push(JSON.parse(JSON.stringify({ seq: entry.seq, operation: entry.operation })));
+        this.rooms.set(roomId, room);
+        const history = this.histories.get(roomId) || [];
+        history.push(JSON.parse(JSON.stringify(entry)));
+        this.histories.set(roomId, history);
+    }
+
+    async writeSnapshot(roomId: string, snapshot: RoomState): Promise<void> {
+        this.rooms.set(roomId, { snapshot: JSON.parse(JSON.stringify(snapshot)), operations: [] });
+    }
+
+    async readHistory(roomId: string, afterSeq: number = 0, upToSeq: number = Infinity): Promise<HistoryEntry[]> {
+        const history = (this.histories.get(roomId) ?? []).filter((entry) => entry.seq > afterSeq && entry.seq <= upToSeq);
+        return JSON.parse(JSON.stringify(history));
+    }
+
+    async saveNamedSnapshot(roomId: string, snapshot: NamedSnapshot, room: RoomState): Promise<void> {
+        const snapshots = this.namedSnapshots.get(roomId) || [];
+        snapshots.push(JSON.parse(JSON.stringify({ snapshot, room })));
+        this.namedSnapshots.set(roomId, snapshots);
+    }
+
+    async listNamedSnapshots(roomId: string): Promise<NamedSnapshot[]> {
+        return JSON.parse(JSON.stringify((this.namedSnapshots.get(roomId) ?? []).map((entry) => entry.snapshot)));
+    }
+
+    async loadNamedSnapshot(roomId: string, id: string): Promise<RoomState | null> {
+        const entry = this.namedSnapshots.get(roomId)?.find((candidate) => candidate.snapshot.id === id);
+        return entry ? JSON.parse(JSON.stringify(entry.room)) : null;
+    }
+}
+
+/**
+ * Stores each room as `<room>.snapshot.json` plus an append-only `<room>.ops.jsonl` log in
+ * `directory`. Appends are fsynced before resolving and snapshots are written to a temp
+ * file and renamed into place, so a crash never leaves a half-written room behind; the log
+ * is emptied after the rename, and entries a crash in between leaves there are recognized
+ * by their seq. History goes to `<room>.history.jsonl`, and named snapshots to
+ * `<room>.snapshots.json` with one `<room>.snapshot-<id>.json` each.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+    constructor(private directory: string) {
+        fs.mkdirSync(directory, { recursive: true });
+    }
+
+    async loadRoom(roomId: string): Promise<StoredRoom | null> {
+        const snapshot = await this.readFile(this.snapshotPath(roomId));
+        const log = await this.readFile(this.logPath(roomId));
+        if (snapshot === null && log === null) {
+            return null;
+        }
+        const room: RoomState | null = snapshot ? JSON.parse(snapshot) : null;
+        const operations: LoggedOperation[] = [];
+        for (const line of (log ?? '').split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                const entry = JSON.parse(line);
+                // Logs written before entries carried their seq hold bare operations, numbered on from the snapshot.
+                operations.push(typeof entry.seq === 'number' && entry.operation
+                    ? entry
+                    : { seq: (operations.length > 0 ? operations[operations.length - 1].seq : room?.seq ?? 0) + 1, operation: entry });
+            } catch (e) {
+                // A torn final line from a crash mid-append; everything before it is intact.
+                console.warn(`Storage: Skipping unreadable log entry for room ${roomId}`);
+            }
+        }
+        return { snapshot: room, operations };
+    }
+
+    async listRooms(): Promise<string[]> {
+        const rooms = new Set<string>();
+        for (const file of await fs.promises.readdir(this.directory)) {
+            const match = /^(.+)\.(?:snapshot\.json|ops\.jsonl)$/.exec(file);
+            if (match) {
+                rooms.add(decodeURIComponent(match[1]));
+            }
+        }
+        return [...rooms];
+    }
+
+    async appendOperation(roomId: string, entry: HistoryEntry): Promise<void> {
+        await this.appendLine(this.logPath(roomId), JSON.stringify({ seq: entry.seq, operation: entry.operation }));
+        await this.appendLine(this.historyPath(roomId), JSON.stringify(entry));
+    }
+
+    async writeSnapshot(roomId: string, snapshot: RoomState): Promise<void> {
+        await this.writeAtomically(this.snapshotPath(roomId), JSON.stringify(snapshot));
+        await fs.promises.writeFile(this.logPath(roomId), '');
+    }
+
+    async readHistory(roomId: string, afterSeq: number = 0, upToSeq: number = Infinity): Promise<HistoryEntry[]> {
+        const history: HistoryEntry[] = [];
+        for (const line of ((await this.readFile(this.historyPath(roomId))) ?? '').split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                const entry: HistoryEntry = JSON.parse(line);
+                if (entry.seq > afterSeq && entry.seq <= upToSeq) {
+                    history.push(entry);
+                }
+            } catch (e) {
+                console.warn(`Storage: Skipping unreadable history entry for room ${roomId}`);
+            }
+        }
+        return history;
+    }
+
+    async saveNamedSnapshot(roomId: string, snapshot: NamedSnapshot, room: RoomState): Promise<void> {
+        // State first, so the index never lists a snapshot that cannot be loaded.
+        await this.writeAtomically(this.namedSnapshotPath(roomId, snapshot.id), JSON.stringify(room));
+        const snapshots = await this.listNamedSnapshots(roomId);
+        snapshots.push(snapshot);
+        await this.writeAtomically(this.namedSnapshotIndexPath(roomId), JSON.stringify(snapshots));
+    }
+
+    async listNamedSnapshots(roomId: string): Promise<NamedSnapshot[]> {
+        const index = await this.readFile(this.namedSnapshotIndexPath(roomId));
+        return index ? JSON.parse(index) : [];
+    }
+
+    async loadNamedSnapshot(roomId: string, id: string): Promise<RoomState | null> {
+        const snapshots = await this.listNamedSnapshots(roomId);
+        if (!snapshots.some((snapshot) => snapshot.id === id)) {
+            return null;
+        }
+        const room = await this.readFile(this.namedSnapshotPath(roomId, id));
+        return room ? JSON.parse(room) : null;
+    }
+
+    private async appendLine(file: string, line: string): Promise<void> {
+        const handle = await fs.promises.open(file, 'a');
+        try {
+            await handle.appendFile(line + '\n');
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private async writeAtomically(target: string, contents: string): Promise<void> {
+        const temp = `${target}.tmp`;
+        const handle = await fs.promises.open(temp, 'w');
+        try {
+            await handle.writeFile(contents);
+            await handle.sync();
+        } finally {
+            await handle.close();
+        }
+        await fs.promises.rename(temp, target);
+    }
+
+    private snapshotPath(roomId: string): string {
+        return path.join(this.directory, `${encodeURIComponent(roomId)}.snapshot.json`);
+    }
+
+    private logPath(roomId: string): string {
+        return path.join(this.directory, `${encodeURIComponent(roomId)}.ops.jsonl`);
+    }
+
+    private historyPath(roomId: string): string {
+        return path.join(this.directory, `${encodeURIComponent(roomId)}.history.jsonl`);
+    }
+
+    private namedSnapshotIndexPath(roomId: string): string {
+        return path.join(this.directory, `${encodeURIComponent(roomId)}.snapshots.json`);
+    }
+
+    private namedSnapshotPath(roomId: string, id: string): string {
+        return path.join(this.directory, `${encodeURIComponent(roomId)}.snapshot-${encodeURIComponent(id)}.json`);
+    }
+
+    private async readFile(file: string): Promise<string | null> {
+        try {
+            return await fs.promises.readFile(file, 'utf8');
+        } catch (e: any) {
+            if (e.code === 'ENOENT') {
+                return null;
+            }
+            throw e;
+        }
+    }
+}
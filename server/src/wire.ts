@@ -0,0 +1,357 @@
+// server/src/wire.ts
+
+/**
+ * Compact binary encoding for batches of operations, used on the socket instead of one JSON
+ * message per operation when both sides support the `binary_batches` feature (see protocol.ts).
+ *
+ * A batch is a format byte followed by the operation count and the operations. Integers are
+ * varints (zigzag-encoded when they may be negative), timestamps are stored as the difference
+ * from the previous operation's, and every string is written out once per batch and referred
+ * to by index afterwards, so actor ids, path segments and object keys cost a byte or two
+ * after their first use. Values keep JSON semantics: `undefined` object entries are dropped
+ * and non-finite numbers become `null`.
+ *
+ * This file mirrors `sdk/src/wire.ts`; keep the two in sync
+ * (`npm run check:mirrors` compares them).
+ */
+
+/** First byte of every batch; bump it when the encoding changes. */
+const FORMAT_BYTE = 1;
+
+const OPERATION_TYPES = ['set', 'del', 'text_insert', 'text_delete', 'list_insert', 'list_remove', 'list_move', 'transaction', 'merge', 'text_format'] as const;
+
+export interface WireOperation {
+    id: string;
+    path: (string | number)[];
+    op: typeof OPERATION_TYPES[number];
+    value?: any;
+    timestamp: number;
+    counter?: number;
+    actorId: string;
+    version: number;
+}
+
+// Operation flags.
+const HAS_COUNTER = 1;
+const HAS_VALUE = 2;
+/** The id is `<actorId>-<suffix>` and only the suffix is written. */
+const ID_FROM_ACTOR = 4;
+
+// Value and number tags.
+const NULL = 0;
+const FALSE = 1;
+const TRUE = 2;
+const INTEGER = 3;
+const FLOAT = 4;
+const STRING = 5;
+const ARRAY = 6;
+const OBJECT = 7;
+
+/** Integers up to this size survive zigzag encoding exactly; larger ones are written as floats. */
+const MAX_VARINT = 2 ** 52;
+
+export function encodeOperations(operations: WireOperation[]): Uint8Array {
+    const writer = new Writer();
+    writer.byte(FORMAT_BYTE);
+    writer.varint(operations.length);
+    operations.forEach((operation) => writer.operation(operation));
+    return writer.finish();
+}
+
+/** Throws when `data` is not a batch in this format. */
+export function decodeOperations(data: ArrayBuffer | Uint8Array): WireOperation[] {
+    const reader = new Reader(data instanceof Uint8Array ? data : new Uint8Array(data));
+    if (reader.byte() !== FORMAT_BYTE) {
+        throw new Error('Unsupported operation batch format');
+    }
+    const count = reader.varint();
+    const operations: WireOperation[] = [];
+    for (let i = 0; i < count; i++) {
+        operations.push(reader.operation());
+    }
+    if (!reader.done()) {
+        throw new Error('Malformed operation batch: trailing bytes');
+    }
+    return operations;
+}
+
+class Writer {
+    private bytes: number[] = [];
+    private strings: Map<string, number> = new Map();
+    private encoder = new TextEncoder();
+    private float = new DataView(new ArrayBuffer(8));
+    private previousTimestamp = 0;
+
+    finish(): Uint8Array {
+        return Uint8Array.from(this.bytes);
+    }
+
+    byte(value: number) {
+        this.bytes.push(value);
+    }
+
+    varint(value: number) {
+        while (value >= 128) {
+            this.bytes.push((value % 128) + 128);
+            value = Math.floor(value / 128);
+        }
+        this.bytes.push(value);
+    }
+
+    /** Tagged: a zigzag varint for integers, otherwise a float64. */
+    number(value: number) {
+        if (Number.isInteger(value) && Math.abs(value) <= MAX_VARINT) {
+            this.byte(INTEGER);
+            this.varint(value >= 0 ? value * 2 : -value * 2 - 1);
+        } else {
+            this.byte(FLOAT);
+            this.float.setFloat64(0, value, true);
+            for (let i = 0; i < 8; i++) {
+                this.bytes.push(this.float.getUint8(i));
+            }
+        }
+    }
+
+    /** The index of an earlier occurrence plus one, or 0 followed by the string itself. */
+    string(value: string) {
+        const index = this.strings.get(value);
+        if (index !== undefined) {
+            this.varint(index + 1);
+            return;
+        }
+        this.strings.set(value, this.strings.size);
+        const encoded = this.encoder.encode(value);
+        this.varint(0);
+        this.varint(encoded.length);
+        encoded.forEach((b) => this.bytes.push(b));
+    }
+
+    value(value: any) {
+        if (typeof value === 'boolean') {
+            this.byte(value ? TRUE : FALSE);
+        } else if (typeof value === 'number' && Number.isFinite(value)) {
+            this.number(value);
+        } else if (typeof value === 'string') {
+            this.byte(STRING);
+            this.string(value);
+        } else if (Array.isArray(value)) {
+            this.byte(ARRAY);
+            this.varint(value.length);
+            value.forEach((item) => this.value(item));
+        } else if (value !== null && typeof value === 'object') {
+            const entries = Object.entries(value).filter(([, entry]) => entry !== undefined);
+            this.byte(OBJECT);
+            this.varint(entries.length);
+            entries.forEach(([key, entry]) => {
+                this.string(key);
+                this.value(entry);
+            });
+        } else {
+            this.byte(NULL);
+        }
+    }
+
+    operation(operation: WireOperation) {
+        const type = OPERATION_TYPES.indexOf(operation.op);
+        if (type === -1) {
+            throw new Error(`Cannot encode operation type ${operation.op}`);
+        }
+        const idFromActor = operation.id.startsWith(`${operation.actorId}-`);
+        const flags = (operation.counter !== undefined ? HAS_COUNTER : 0)
+            | (operation.value !== undefined ? HAS_VALUE : 0)
+            | (idFromActor ? ID_FROM_ACTOR : 0);
+        this.byte(type);
+        this.byte(flags);
+        this.string(operation.actorId);
+        this.string(idFromActor ? operation.id.slice(operation.actorId.length + 1) : operation.id);
+        const delta = operation.timestamp - this.previousTimestamp;
+        if (Number.isSafeInteger(operation.timestamp) && Math.abs(delta) <= MAX_VARINT) {
+            this.number(delta);
+            this.previousTimestamp = operation.timestamp;
+        } else {
+            this.byte(FLOAT);
+            this.float.setFloat64(0, operation.timestamp, true);
+            for (let i = 0; i < 8; i++) {
+                this.bytes.push(this.float.getUint8(i));
+            }
+        }
+        if (operation.counter !== undefined) {
+            this.number(operation.counter);
+        }
+        this.number(operation.version);
+        this.varint(operation.path.length);
+        operation.path.forEach((segment) => this.value(segment));
+        if (operation.value === undefined) {
+            return;
+        }
+        if (operation.op === 'transaction') {
+            if (!Array.isArray(operation.value)) {
+                throw new Error('Cannot encode a transaction whose value is not an array');
+            }
+            this.varint(operation.value.length);
+            operation.value.forEach((inner: WireOperation) => this.operation(inner));
+        } else {
+            this.value(operation.value);
+        }
+    }
+}
+
+class Reader {
+    private offset = 0;
+    private strings: string[] = [];
+    private decoder = new TextDecoder();
+    private previousTimestamp = 0;
+
+    constructor(private bytes: Uint8Array) {}
+
+    done(): boolean {
+        return this.offset === this.bytes.length;
+    }
+
+    byte(): number {
+        if (this.offset >= this.bytes.length) {
+            throw new Error('Malformed operation batch: unexpected end');
+        }
+        return this.bytes[this.offset++];
+    }
+
+    varint(): number {
+        let value = 0;
+        let scale = 1;
+        for (;;) {
+            const b = this.byte();
+            value += (b % 128) * scale;
+            if (b < 128) {
+                return value;
+            }
+            scale *= 128;
+            if (scale > MAX_VARINT * 2) {
+                throw new Error('Malformed operation batch: varint too long');
+            }
+        }
+    }
+
+    /** A number written by `Writer.number`, whose tag has already been read as `tag`. */
+    number(tag: number = this.byte()): number {
+        if (tag === INTEGER) {
+            const zigzag = this.varint();
+            return zigzag % 2 === 0 ? zigzag / 2 : -(zigzag + 1) / 2;
+        }
+        if (tag === FLOAT) {
+            if (this.offset + 8 > this.bytes.length) {
+                throw new Error('Malformed operation batch: unexpected end');
+            }
+            const view = new DataView(this.bytes.buffer, this.bytes.byteOffset + this.offset, 8);
+            this.offset += 8;
+            return view.getFloat64(0, true);
+        }
+        throw new Error(`Malformed operation batch: expected a number, found tag ${tag}`);
+    }
+
+    string(): string {
+        const reference = this.varint();
+        if (reference > 0) {
+            if (reference > this.strings.length) {
+                throw new Error('Malformed operation batch: unknown string reference');
+            }
+            return this.strings[reference - 1];
+        }
+        const length = this.varint();
+        if (this.offset + length > this.bytes.length) {
+            throw new Error('Malformed operation batch: unexpected end');
+        }
+        const value = this.decoder.decode(this.bytes.subarray(this.offset, this.offset + length));
+        this.offset += length;
+        this.strings.push(value);
+        return value;
+    }
+
+    value(): any {
+        const tag = this.byte();
+        switch (tag) {
+            case NULL:
+                return null;
+            case FALSE:
+                return false;
+            case TRUE:
+                return true;
+            case INTEGER:
+            case FLOAT:
+                return this.number(tag);
+            case STRING:
+                return this.string();
+            case ARRAY: {
+                const length = this.varint();
+                const items: any[] = [];
+                for (let i = 0; i < length; i++) {
+                    items.push(this.value());
+                }
+                return items;
+            }
+            case OBJECT: {
+                const length = this.varint();
+                const entries: { [key: string]: any } = {};
+                for (let i = 0; i < length; i++) {
+                    const key = this.string();
+                    // Defined like JSON.parse does, so a `__proto__` key is just data.
+                    Object.defineProperty(entries, key, { value: this.value(), enumerable: true, writable: true, configurable: true });
+                }
+                return entries;
+            }
+            default:
+                throw new Error(`Malformed operation batch: unknown value tag ${tag}`);
+        }
+    }
+
+    operation(): WireOperation {
+        const type = OPERATION_TYPES[this.byte()];
+        if (type === undefined) {
+            throw new Error('Malformed operation batch: unknown operation type');
+        }
+        const flags = this.byte();
+        const actorId = this.string();
+        const id = flags & ID_FROM_ACTOR ? `${actorId}-${this.string()}` : this.string();
+        const timestampTag = this.byte();
+        let timestamp: number;
+        if (timestampTag === INTEGER) {
+            timestamp = this.previousTimestamp + this.number(timestampTag);
+            this.previousTimestamp = timestamp;
+        } else {
+            timestamp = this.number(timestampTag);
+        }
+        const counter = flags & HAS_COUNTER ? this.number() : undefined;
+        const version = this.number();
+        const path: (string | number)[] = [];
+        const pathLength = this.varint();
+        for (let i = 0; i < pathLength; i++) {
+            const segment = this.value();
+            if (typeof segment !== 'string' && typeof segment !== 'number') {
+                throw new Error('Malformed operation batch: path segments must be strings or numbers');
+            }
+            path.push(segment);
+        }
+        let value: any;
+        if (flags & HAS_VALUE) {
+            if (type === 'transaction') {
+                const count = this.varint();
+                value = [];
+                for (let i = 0; i < count; i++) {
+                    value.push(this.operation());
+                }
+            } else {
+                value = this.value();
+            }
+        }
+        // Fields in the order operations are created in, so they read like their JSON form.
+        return {
+            id,
+            path,
+            op: type,
+            ...(value !== undefined ? { value } : {}),
+            timestamp,
+            ...(counter !== undefined ? { counter } : {}),
+            actorId,
+            version,
+        };
+    }
+}